@@ -67,7 +67,7 @@ export function validateAlphabet(alphabet: string): void {
  * @throws Error if alphabet is invalid
  */
 export function resolveAlphabet(alphabet: Alphabet): string {
-  if (alphabet in ALPHABETS) {
+  if (Object.prototype.hasOwnProperty.call(ALPHABETS, alphabet)) {
     return ALPHABETS[alphabet as AlphabetName]
   }
 
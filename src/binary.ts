@@ -6,6 +6,7 @@
  */
 
 import { ALPHABETS, resolveAlphabet, validateAlphabet, createLookupMap, type Alphabet, type AlphabetName } from './alphabet.js'
+import { isBase64Alphabet, radixDecode, radixEncode, resolveRadixAlphabet, type RadixAlphabet } from './radix.js'
 
 /**
  * URL-safe base64 alphabet (RFC 4648 base64url)
@@ -105,6 +106,31 @@ export function base64Decode(str: string, options?: Base64Options): Uint8Array {
   return new Uint8Array(bytes)
 }
 
+/**
+ * Encode bytes with an `alphabet` option: base64 for base64 presets and 64-char strings
+ * (the default), radix-N for radix presets and other lengths
+ * @param bytes - The bytes to encode
+ * @param alphabet - Base64 or radix alphabet (default `'rfc4648'`)
+ */
+export function encodeBytes(bytes: Uint8Array, alphabet?: Alphabet | RadixAlphabet): string {
+  if (alphabet === undefined || isBase64Alphabet(alphabet)) {
+    return base64Encode(bytes, alphabet ? { alphabet } : undefined)
+  }
+  return radixEncode(bytes, alphabet)
+}
+
+/**
+ * Decode a string produced by `encodeBytes` with the same alphabet
+ * @param str - The string to decode
+ * @param alphabet - Base64 or radix alphabet (default `'rfc4648'`)
+ */
+export function decodeBytes(str: string, alphabet?: Alphabet | RadixAlphabet): Uint8Array {
+  if (alphabet === undefined || isBase64Alphabet(alphabet)) {
+    return base64Decode(str, alphabet ? { alphabet } : undefined)
+  }
+  return radixDecode(str, alphabet)
+}
+
 /**
  * Options for binary param creation
  */
@@ -120,10 +146,11 @@ export interface BinaryParamOptions<T> {
   fromBytes: (bytes: Uint8Array) => T
 
   /**
-   * Alphabet to use: preset name or 64-character string
+   * Alphabet to use: base64 preset name or 64-character string, or radix preset name
+   * (`'hash'`, `'query'`, `'base62'`) or 2–90-character string for radix-N encoding
    * @default 'rfc4648'
    */
-  alphabet?: Alphabet
+  alphabet?: Alphabet | RadixAlphabet
 }
 
 import type { Param } from './index.js'
@@ -132,7 +159,7 @@ import type { Param } from './index.js'
  * Create a param that encodes/decodes via binary representation
  *
  * This is a mid-level helper for creating custom binary-encoded params.
- * You provide toBytes/fromBytes converters, and it handles the base64url encoding.
+ * You provide toBytes/fromBytes converters, and it handles the base64url (or radix-N) encoding.
  *
  * @example
  * ```ts
@@ -148,19 +175,20 @@ import type { Param } from './index.js'
  */
 export function binaryParam<T>(options: BinaryParamOptions<T>): Param<T | null> {
   const { toBytes, fromBytes, alphabet } = options
-  const encodeOpts = alphabet ? { alphabet } : undefined
+  // Validate radix alphabets up front
+  if (alphabet !== undefined && !isBase64Alphabet(alphabet)) resolveRadixAlphabet(alphabet)
 
   return {
     encode: (value) => {
       if (value === null) return undefined
       const bytes = toBytes(value)
       if (bytes.length === 0) return undefined
-      return base64Encode(bytes, encodeOpts)
+      return encodeBytes(bytes, alphabet)
     },
     decode: (encoded) => {
       if (encoded === undefined || encoded === '') return null
       try {
-        const bytes = base64Decode(encoded, encodeOpts)
+        const bytes = decodeBytes(encoded, alphabet)
         return fromBytes(bytes)
       } catch {
         return null
@@ -176,7 +204,7 @@ export function binaryParam<T>(options: BinaryParamOptions<T>): Param<T | null>
 export function base64Param<T>(
   toBytes: (value: T) => Uint8Array,
   fromBytes: (bytes: Uint8Array) => T,
-  alphabet?: Alphabet
+  alphabet?: Alphabet | RadixAlphabet
 ): Param<T | null> {
   return binaryParam({ toBytes, fromBytes, alphabet })
 }
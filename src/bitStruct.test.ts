@@ -0,0 +1,191 @@
+import { describe, it, expect, expectTypeOf } from 'vitest'
+import {
+  bitStruct,
+  uint,
+  int,
+  bigUint,
+  bool,
+  bits,
+  varuint,
+  varint,
+  fixedPoints,
+  oneOf,
+  array,
+  nullable,
+  struct,
+} from './bitStruct'
+import { BitBuffer } from './float'
+import type { Param } from './index'
+
+describe('fields', () => {
+  function roundtrip<T>(field: { encode(buf: BitBuffer, v: T): void; decode(buf: BitBuffer): T }, value: T) {
+    const buf = new BitBuffer()
+    field.encode(buf, value)
+    const bitsUsed = buf.end
+    return { value: field.decode(BitBuffer.fromBase64(buf.toBase64())), bits: bitsUsed }
+  }
+
+  it('uint', () => {
+    expect(roundtrip(uint(3), 5)).toEqual({ value: 5, bits: 3 })
+    expect(roundtrip(uint(40), 2 ** 40 - 1)).toEqual({ value: 2 ** 40 - 1, bits: 40 })
+    expect(() => roundtrip(uint(3), 8)).toThrow('uint(3) value out of range: 8')
+    expect(() => roundtrip(uint(3), -1)).toThrow('out of range')
+    expect(() => uint(0)).toThrow('Field width')
+    expect(() => uint(54)).toThrow('Field width')
+  })
+
+  it('int', () => {
+    expect(roundtrip(int(4), -8)).toEqual({ value: -8, bits: 4 })
+    expect(roundtrip(int(4), 7)).toEqual({ value: 7, bits: 4 })
+    expect(roundtrip(int(40), -(2 ** 39))).toEqual({ value: -(2 ** 39), bits: 40 })
+    expect(() => roundtrip(int(4), 8)).toThrow('out of range')
+  })
+
+  it('bigUint', () => {
+    expect(roundtrip(bigUint(100), 2n ** 99n + 1n)).toEqual({ value: 2n ** 99n + 1n, bits: 100 })
+    expect(() => roundtrip(bigUint(8), 256n)).toThrow('out of range')
+  })
+
+  it('bool and bits', () => {
+    expect(roundtrip(bool(), true)).toEqual({ value: true, bits: 1 })
+    expect(roundtrip(bits(5), [true, false, false, true, true])).toEqual({
+      value: [true, false, false, true, true],
+      bits: 5,
+    })
+    expect(() => roundtrip(bits(5), [true])).toThrow('expects 5 flags')
+  })
+
+  it('varuint and varint', () => {
+    expect(roundtrip(varuint(), 3)).toEqual({ value: 3, bits: 8 })
+    expect(roundtrip(varuint(), 50_000)).toEqual({ value: 50_000, bits: 24 })
+    expect(roundtrip(varint(3), -4)).toEqual({ value: -4, bits: 4 })
+  })
+
+  it('fixedPoints', () => {
+    const { value, bits: n } = roundtrip(fixedPoints(2, 16), [1.5, -2.25])
+    expect(value).toEqual([1.5, -2.25])
+    expect(n).toBe(5 + 2 * 17)
+    expect(() => roundtrip(fixedPoints(2), [1])).toThrow('expects 2 values')
+  })
+
+  it('oneOf', () => {
+    const field = oneOf(['a', 'b', 'c'] as const)
+    expectTypeOf(field.decode).returns.toEqualTypeOf<'a' | 'b' | 'c'>()
+    expect(roundtrip(field, 'c')).toEqual({ value: 'c', bits: 2 })
+    expect(roundtrip(oneOf(['only']), 'only')).toEqual({ value: 'only', bits: 0 })
+    expect(() => roundtrip(field, 'd' as 'a')).toThrow('not in oneOf')
+
+    const buf = new BitBuffer()
+    buf.encodeInt(3, 2)
+    buf.seek(0)
+    expect(() => field.decode(buf)).toThrow('Invalid oneOf() index: 3')
+  })
+
+  it('array', () => {
+    expect(roundtrip(array(uint(4)), [1, 2, 15])).toEqual({ value: [1, 2, 15], bits: 8 + 12 })
+    expect(roundtrip(array(uint(4), { length: 2 }), [1, 2])).toEqual({ value: [1, 2], bits: 8 })
+    expect(roundtrip(array(uint(4), { length: uint(2) }), [7])).toEqual({ value: [7], bits: 6 })
+    expect(() => roundtrip(array(uint(4), { length: 2 }), [1])).toThrow('expects 2 elements')
+  })
+
+  it('array rejects lengths beyond the input', () => {
+    const buf = new BitBuffer()
+    buf.encodeVarUint(1_000_000)
+    buf.seek(0)
+    expect(() => array(bool()).decode(buf)).toThrow('exceeds remaining input')
+  })
+
+  it('nullable', () => {
+    expect(roundtrip(nullable(uint(8)), null)).toEqual({ value: null, bits: 1 })
+    expect(roundtrip(nullable(uint(8)), 200)).toEqual({ value: 200, bits: 9 })
+  })
+
+  it('struct', () => {
+    const field = struct({ a: uint(2), b: nullable(bool()) })
+    expect(roundtrip(field, { a: 3, b: false })).toEqual({ value: { a: 3, b: false }, bits: 4 })
+  })
+})
+
+describe('bitStruct', () => {
+  const schema = {
+    kind: uint(3),
+    count: varuint(),
+    pos: fixedPoints(2, 16),
+    flags: bits(5),
+    items: array(struct({ id: varuint(), on: bool() })),
+  }
+
+  const value = {
+    kind: 5,
+    count: 50_000,
+    pos: [1.5, -2.25],
+    flags: [true, false, true, false, false],
+    items: [{ id: 1, on: true }, { id: 300, on: false }],
+  }
+
+  it('infers the value type', () => {
+    const param = bitStruct(schema)
+    expectTypeOf(param).toEqualTypeOf<Param<{
+      kind: number
+      count: number
+      pos: number[]
+      flags: boolean[]
+      items: { id: number; on: boolean }[]
+    } | null>>()
+
+    const withDefault = bitStruct({ n: uint(4) }, { default: { n: 0 } })
+    expectTypeOf(withDefault).toEqualTypeOf<Param<{ n: number }>>()
+  })
+
+  it('roundtrips', () => {
+    const param = bitStruct(schema)
+    const encoded = param.encode(value)!
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(param.decode(encoded)).toEqual(value)
+  })
+
+  it('matches hand-written BitBuffer encoding', () => {
+    const buf = new BitBuffer()
+    buf.encodeInt(value.kind, 3)
+    buf.encodeVarUint(value.count)
+    buf.encodeFixedPoints(value.pos, { expBits: 5, mantBits: 16 })
+    value.flags.forEach(f => buf.encodeInt(f ? 1 : 0, 1))
+    buf.encodeVarUint(value.items.length)
+    value.items.forEach(({ id, on }) => {
+      buf.encodeVarUint(id)
+      buf.encodeInt(on ? 1 : 0, 1)
+    })
+    expect(bitStruct(schema).encode(value)).toBe(buf.toBase64())
+  })
+
+  it('null and missing', () => {
+    const param = bitStruct(schema)
+    expect(param.encode(null)).toBeUndefined()
+    expect(param.decode(undefined)).toBeNull()
+    expect(param.decode('')).toBeNull()
+  })
+
+  it('falls back on invalid input', () => {
+    const param = bitStruct({ k: oneOf(['a', 'b', 'c']) })
+    expect(param.decode('!!')).toBeNull()
+    // index 3 → invalid
+    expect(param.decode('w')).toBeNull()
+
+    const withDefault = bitStruct({ k: oneOf(['a', 'b', 'c']) }, { default: { k: 'a' } })
+    expect(withDefault.decode('w')).toEqual({ k: 'a' })
+  })
+
+  it('omits values equal to the default', () => {
+    const param = bitStruct({ n: uint(4), tags: array(uint(2)) }, { default: { n: 1, tags: [] } })
+    expect(param.encode({ n: 1, tags: [] })).toBeUndefined()
+    expect(param.encode({ n: 2, tags: [] })).toBeDefined()
+    expect(param.decode(undefined)).toEqual({ n: 1, tags: [] })
+  })
+
+  it('supports radix alphabets', () => {
+    const param = bitStruct(schema, { alphabet: 'hash' })
+    const encoded = param.encode(value)!
+    expect(encoded.length).toBeLessThanOrEqual(bitStruct(schema).encode(value)!.length)
+    expect(param.decode(encoded)).toEqual(value)
+  })
+})
@@ -0,0 +1,240 @@
+import { describe, it, expect, expectTypeOf } from 'vitest'
+import { mapParam, optional, withDefault, validate, clamp, objectParam, listParam, tupleParam } from './combinators'
+import { intParam, optIntParam, stringsParam, enumParam, boolParam, defStringParam, stringParam, codeParam } from './params'
+import { floatParam, optFloatParam } from './float'
+import type { Param } from './index'
+
+describe('mapParam', () => {
+  it('converts values both ways', () => {
+    const pct = mapParam(intParam(0), n => n / 100, f => Math.round(f * 100))
+    expect(pct.encode(0.25)).toBe('25')
+    expect(pct.encode(0)).toBeUndefined()
+    expect(pct.decode('25')).toBe(0.25)
+    expect(pct.decode(undefined)).toBe(0)
+  })
+})
+
+describe('optional', () => {
+  // No omitted default, so every array is written
+  const param = optional(stringsParam(['-'], ','))
+
+  it('maps null to absent', () => {
+    expectTypeOf(param).toEqualTypeOf<Param<string[] | null>>()
+    expect(param.encode(null)).toBeUndefined()
+    expect(param.decode(undefined)).toBeNull()
+    expect(param.encode(['a', 'b'])).toBe('a,b')
+    expect(param.decode('a,b')).toEqual(['a', 'b'])
+  })
+
+  it('passes valueless params to the inner param', () => {
+    expect(param.encode([])).toBe('')
+    expect(param.decode('')).toEqual([])
+  })
+})
+
+describe('withDefault', () => {
+  it('infers non-null types from optional params', () => {
+    expectTypeOf(withDefault(optIntParam, 1)).toEqualTypeOf<Param<number>>()
+    expectTypeOf(withDefault(intParam(0), 1)).toEqualTypeOf<Param<number>>()
+    const theme = enumParam<'light' | 'dark'>('light', ['light', 'dark'])
+    expectTypeOf(withDefault(theme, 'dark')).toEqualTypeOf<Param<'light' | 'dark'>>()
+  })
+
+  it('omits the default and falls back to it', () => {
+    const param = withDefault(optIntParam, 1)
+    expect(param.encode(1)).toBeUndefined()
+    expect(param.encode(2)).toBe('2')
+    expect(param.decode(undefined)).toBe(1)
+    expect(param.decode('')).toBe(1)
+    expect(param.decode('x')).toBe(1)
+    expect(param.decode('3')).toBe(3)
+  })
+
+  it('supports custom equality', () => {
+    const param = withDefault(stringsParam([], ','), ['a', 'b'], (x, y) => x.join() === y.join())
+    expect(param.encode(['a', 'b'])).toBeUndefined()
+    expect(param.encode(['a'])).toBe('a')
+    expect(param.decode(undefined)).toEqual(['a', 'b'])
+  })
+
+  it('matches intParam and floatParam', () => {
+    for (const value of [0, 1, -7, 1234]) {
+      expect(withDefault(optIntParam, 1).encode(value)).toBe(intParam(1).encode(value))
+      const opts = { encoding: 'string', decimals: 2 } as const
+      expect(withDefault(optFloatParam(opts), 1).encode(value + 0.5))
+        .toBe(floatParam({ ...opts, default: 1 }).encode(value + 0.5))
+    }
+  })
+})
+
+describe('validate', () => {
+  const even = validate(intParam(0), n => n % 2 === 0, 0)
+
+  it('replaces invalid decoded values', () => {
+    expect(even.decode('4')).toBe(4)
+    expect(even.decode('3')).toBe(0)
+  })
+
+  it('encodes invalid values as the fallback', () => {
+    expect(even.encode(6)).toBe('6')
+    expect(even.encode(3)).toBeUndefined()
+  })
+})
+
+describe('clamp', () => {
+  it('clamps encoded and decoded values', () => {
+    const zoom = clamp(floatParam({ default: 10, encoding: 'string', decimals: 1 }), 0, 22)
+    expect(zoom.decode('30')).toBe(22)
+    expect(zoom.decode('-1')).toBe(0)
+    expect(zoom.encode(25)).toBe('22.0')
+    expect(zoom.decode(undefined)).toBe(10)
+  })
+
+  it('passes null through', () => {
+    const param = clamp(optIntParam, 0)
+    expect(param.decode(undefined)).toBeNull()
+    expect(param.decode('-5')).toBe(0)
+    expect(param.encode(null)).toBeUndefined()
+  })
+
+  it('rejects inverted bounds', () => {
+    expect(() => clamp(intParam(0), 5, 1)).toThrow('min (5) exceeds max (1)')
+  })
+})
+
+describe('objectParam', () => {
+  const fields = {
+    sort: enumParam('a', ['a', 'b', 'x.y'] as const),
+    page: intParam(0),
+    raw: boolParam,
+  }
+
+  it('infers the object type', () => {
+    expectTypeOf(objectParam(fields)).toEqualTypeOf<Param<{ sort: 'a' | 'b' | 'x.y'; page: number; raw: boolean }>>()
+  })
+
+  it('encodes positionally and trims trailing defaults', () => {
+    const param = objectParam(fields)
+    expect(param.encode({ sort: 'b', page: 3, raw: true })).toBe('b.3.~')
+    expect(param.encode({ sort: 'b', page: 3, raw: false })).toBe('b.3')
+    expect(param.encode({ sort: 'a', page: 3, raw: false })).toBe('.3')
+    expect(param.encode({ sort: 'a', page: 0, raw: true })).toBe('..~')
+    expect(param.encode({ sort: 'a', page: 0, raw: false })).toBeUndefined()
+  })
+
+  it('decodes positionally, defaulting missing fields', () => {
+    const param = objectParam(fields)
+    expect(param.decode('b.3.~')).toEqual({ sort: 'b', page: 3, raw: true })
+    expect(param.decode('.3')).toEqual({ sort: 'a', page: 3, raw: false })
+    expect(param.decode('..~')).toEqual({ sort: 'a', page: 0, raw: true })
+    expect(param.decode(undefined)).toEqual({ sort: 'a', page: 0, raw: false })
+    expect(param.decode('b.3..extra')).toEqual({ sort: 'b', page: 3, raw: false })
+  })
+
+  it('escapes delimiter collisions', () => {
+    const param = objectParam(fields)
+    expect(param.encode({ sort: 'x.y', page: 1, raw: false })).toBe('x~2Ey.1')
+    expect(param.decode('x~2Ey.1')).toEqual({ sort: 'x.y', page: 1, raw: false })
+
+    const strings = objectParam({ a: defStringParam(''), b: defStringParam('') }, { delimiter: '_' })
+    for (const value of [{ a: '~', b: '_' }, { a: '_~_', b: '' }, { a: '~2E', b: 'x' }]) {
+      expect(strings.decode(strings.encode(value))).toEqual(value)
+    }
+  })
+
+  it('falls back to defaults on malformed escapes', () => {
+    const param = objectParam(fields)
+    expect(param.decode('b.3~')).toEqual({ sort: 'a', page: 0, raw: false })
+    expect(param.decode('b~zz.3')).toEqual({ sort: 'a', page: 0, raw: false })
+  })
+
+  it('encodes short tags in any order', () => {
+    const param = objectParam(fields, { tags: { sort: 's', page: 'p', raw: 'r' } })
+    expect(param.encode({ sort: 'b', page: 3, raw: true })).toBe('sb.p3.r')
+    expect(param.encode({ sort: 'a', page: 3, raw: false })).toBe('p3')
+    expect(param.encode({ sort: 'x.y', page: 0, raw: false })).toBe('sx~2Ey')
+    expect(param.decode('r.p3')).toEqual({ sort: 'a', page: 3, raw: true })
+    expect(param.decode('sx~2Ey.q9')).toEqual({ sort: 'x.y', page: 0, raw: false })
+  })
+
+  it('validates options', () => {
+    expect(() => objectParam(fields, { delimiter: '..' })).toThrow('single printable ASCII')
+    expect(() => objectParam(fields, { delimiter: '~' })).toThrow('must differ')
+    expect(() => objectParam(fields, { tags: { sort: 's', page: 'sp', raw: 'r' } })).toThrow('prefix-free')
+    expect(() => objectParam(fields, { tags: { sort: 's', page: 's', raw: 'r' } })).toThrow('prefix-free')
+    expect(() => objectParam(fields, { tags: { sort: 's', page: 'p.', raw: 'r' } })).toThrow("Invalid tag 'p.'")
+  })
+})
+
+describe('listParam', () => {
+  it('distinguishes empty list from one empty element', () => {
+    const param = listParam(defStringParam('-'), { default: ['x'] })
+    expect(param.encode([])).toBe('')
+    expect(param.encode([''])).toBe('~')
+    expect(param.decode('')).toEqual([])
+    expect(param.decode('~')).toEqual([''])
+    expect(param.encode(['x'])).toBeUndefined()
+    expect(param.decode(undefined)).toEqual(['x'])
+  })
+
+  it('escapes delimiters in element encodings', () => {
+    const param = listParam(defStringParam('-'))
+    const values = ['a', 'b,c', '~', '', 'd']
+    expect(param.encode(values)).toBe('a,b~2Cc,~7E,~,d')
+    expect(param.decode('a,b~2Cc,~7E,~,d')).toEqual(values)
+  })
+
+  it('accepts any element param', () => {
+    const sizes = listParam(enumParam('s', ['s', 'm', 'l'] as const), { delimiter: '.' })
+    expectTypeOf(sizes).toEqualTypeOf<Param<('s' | 'm' | 'l')[]>>()
+    expect(sizes.encode(['m', 'l'])).toBe('m.l')
+    expect(sizes.decode('m.l')).toEqual(['m', 'l'])
+
+    const codes = listParam(codeParam<'Rides' | 'Minutes'>('Rides', { Rides: 'r', Minutes: 'm' }))
+    expect(codes.decode(codes.encode(['Minutes', 'Minutes']))).toEqual(['Minutes', 'Minutes'])
+
+    const prices = listParam(floatParam({ default: 0, encoding: 'string', decimals: 2 }), { delimiter: '.' })
+    expect(prices.encode([1.5, 2])).toBe('1~2E50.2~2E00')
+    expect(prices.decode('1~2E50.2~2E00')).toEqual([1.5, 2])
+  })
+
+  it('keeps elements at their own default', () => {
+    const param = listParam(enumParam('s', ['s', 'm', 'l'] as const))
+    expect(param.encode(['s', 'm'])).toBe(',m')
+    expect(param.decode(',m')).toEqual(['s', 'm'])
+    expect(param.encode(['s'])).toBe('~~')
+    expect(param.decode('~~')).toEqual(['s'])
+    expect(param.decode(param.encode(['s', 's']))).toEqual(['s', 's'])
+  })
+
+  it('falls back to default on malformed escapes', () => {
+    expect(listParam(intParam(0), { default: [1] }).decode('1,~q')).toEqual([1])
+  })
+})
+
+describe('tupleParam', () => {
+  const param = tupleParam([
+    enumParam('a', ['a', 'b'] as const),
+    intParam(0),
+    floatParam({ default: 0, encoding: 'string', decimals: 1 }),
+  ])
+
+  it('infers the tuple type', () => {
+    expectTypeOf(param).toEqualTypeOf<Param<['a' | 'b', number, number]>>()
+  })
+
+  it('encodes positionally and trims trailing defaults', () => {
+    expect(param.encode(['b', 3, 0.5])).toBe('b,3,0.5')
+    expect(param.encode(['a', 3, 0])).toBe(',3')
+    expect(param.encode(['a', 0, 0])).toBeUndefined()
+    expect(param.decode(',3')).toEqual(['a', 3, 0])
+    expect(param.decode(undefined)).toEqual(['a', 0, 0])
+  })
+
+  it('escapes delimiters and valueless elements', () => {
+    const strings = tupleParam([defStringParam(''), stringParam(), boolParam])
+    expect(strings.encode(['x,y', '', true])).toBe('x~2Cy,~,~')
+    expect(strings.decode('x~2Cy,~,~')).toEqual(['x,y', '', true])
+    expect(strings.decode('x~zz')).toEqual(['', undefined, false])
+  })
+})
@@ -0,0 +1,428 @@
+/**
+ * Combinators for adapting existing params
+ *
+ * Each takes a `Param` and returns a new one, so encodings can be reused across value types,
+ * defaults, and validation rules without rewriting encode/decode by hand.
+ */
+
+import type { Encoded, Param } from './index.js'
+
+/**
+ * Convert a param's value type, reusing its URL encoding
+ * @param param - Underlying param
+ * @param to - Convert a decoded value to the new type
+ * @param from - Convert a new-type value back, for encoding
+ *
+ * @example
+ * ```ts
+ * // Percentages stored as fractions
+ * const pctParam = mapParam(floatParam({ default: 0, encoding: 'string' }), f => f * 100, p => p / 100)
+ * ```
+ */
+export function mapParam<A, B>(param: Param<A>, to: (value: A) => B, from: (value: B) => A): Param<B> {
+  return {
+    encode: (value) => param.encode(from(value)),
+    decode: (encoded) => to(param.decode(encoded)),
+  }
+}
+
+/**
+ * Make a param nullable: `null` ↔ absent from the URL; present values use `param`.
+ * `param` should encode every value (i.e. have no omitted default), or those values
+ * will read back as `null`.
+ */
+export function optional<T>(param: Param<T>): Param<T | null> {
+  return {
+    encode: (value) => value === null ? undefined : param.encode(value),
+    decode: (encoded) => encoded === undefined ? null : param.decode(encoded),
+  }
+}
+
+/**
+ * Give a param a default: omitted from the URL when equal to `init`, and used when the
+ * param is absent (or decodes to `null`, e.g. from malformed input).
+ * @param param - Underlying param, typically one decoding to `T | null`
+ * @param init - Default value
+ * @param eq - Equality used to detect the default (default: `===`)
+ *
+ * @example
+ * ```ts
+ * const pageParam = withDefault(optIntParam, 1)
+ * const tagsParam = withDefault(stringsParam(), ['a'], (x, y) => x.join() === y.join())
+ * ```
+ */
+export function withDefault<T>(param: Param<T | null>, init: NoInfer<T>, eq?: (a: T, b: T) => boolean): Param<T>
+export function withDefault<T>(param: Param<T>, init: NoInfer<T>, eq?: (a: T, b: T) => boolean): Param<T>
+export function withDefault<T>(
+  param: Param<T | null>,
+  init: T,
+  eq: (a: T, b: T) => boolean = (a, b) => a === b,
+): Param<T> {
+  return {
+    encode: (value) => eq(value, init) ? undefined : param.encode(value),
+    decode: (encoded) => encoded === undefined ? init : param.decode(encoded) ?? init,
+  }
+}
+
+/**
+ * Reject decoded values failing `pred`, replacing them with `fallback`.
+ * Invalid values passed to `encode` are written as `fallback`.
+ *
+ * @example
+ * ```ts
+ * const evenParam = validate(intParam(0), n => n % 2 === 0, 0)
+ * ```
+ */
+export function validate<T>(param: Param<T>, pred: (value: T) => boolean, fallback: T): Param<T> {
+  return {
+    encode: (value) => param.encode(pred(value) ? value : fallback),
+    decode: (encoded) => {
+      const value = param.decode(encoded)
+      return pred(value) ? value : fallback
+    },
+  }
+}
+
+/**
+ * Clamp a numeric param's values into `[min, max]` when encoding and decoding
+ * (`null` values pass through)
+ *
+ * @example
+ * ```ts
+ * const zoomParam = clamp(floatParam({ default: 10, encoding: 'string', decimals: 1 }), 0, 22)
+ * ```
+ */
+export function clamp<T extends number | null>(param: Param<T>, min = -Infinity, max = Infinity): Param<T> {
+  if (min > max) throw new Error(`clamp() min (${min}) exceeds max (${max})`)
+  const clampValue = (value: T): T => value === null ? value : Math.min(max, Math.max(min, value)) as T
+  return {
+    encode: (value) => param.encode(clampValue(value)),
+    decode: (encoded) => clampValue(param.decode(encoded)),
+  }
+}
+
+/**
+ * Sub-params composed by objectParam: field name → param
+ */
+export type ParamFields = Record<string, Param<any>>
+
+/**
+ * Value type described by a fields object
+ */
+export type ObjectParamValue<F extends ParamFields> = { [K in keyof F]: F[K] extends Param<infer T> ? T : never }
+
+/**
+ * Options for objectParam
+ */
+export interface ObjectParamOptions<F extends ParamFields> {
+  /**
+   * Separator between fields (a single character)
+   * @default '.'
+   */
+  delimiter?: string
+  /**
+   * Escape character: `delimiter` and `escape` inside field values are written as `escape` plus
+   * their 2-digit hex code (like `%2E`); a lone `escape` marks a valueless field (`''`)
+   * @default '~'
+   */
+  escape?: string
+  /**
+   * Short tag per field. When set, fields are written as `<tag><value>` in any order and
+   * omitted when at their default, instead of positionally. Tags must be prefix-free.
+   */
+  tags?: { [K in keyof F]: string }
+}
+
+function checkSeparators(delimiter: string, escape: string): void {
+  if (!/^[\x21-\x7e]$/.test(delimiter) || !/^[\x21-\x7e]$/.test(escape)) {
+    throw new Error(`delimiter and escape must be single printable ASCII characters, got '${delimiter}' and '${escape}'`)
+  }
+  if (delimiter === escape) {
+    throw new Error(`delimiter and escape must differ, got '${delimiter}'`)
+  }
+}
+
+const hexCode = (char: string) => char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')
+
+/**
+ * Escape occurrences of `delimiter` and `escape` in a value
+ */
+function escapeValue(value: string, delimiter: string, escape: string): string {
+  let result = ''
+  for (const char of value) {
+    result += char === delimiter || char === escape ? escape + hexCode(char) : char
+  }
+  return result
+}
+
+/**
+ * Split on unescaped delimiters, unescaping each segment. A segment that is a lone `escape`
+ * decodes to `''`, and an empty segment to `undefined`.
+ * @throws Error on malformed escape sequences
+ */
+function splitEscaped(str: string, delimiter: string, escape: string): Encoded[] {
+  return str.split(delimiter).map(segment => {
+    if (segment === '') return undefined
+    if (segment === escape) return ''
+    let result = ''
+    for (let i = 0; i < segment.length; i++) {
+      const char = segment[i]
+      if (char !== escape) {
+        result += char
+        continue
+      }
+      const hex = segment.slice(i + 1, i + 3)
+      if (!/^[0-9A-Fa-f]{2}$/.test(hex)) {
+        throw new Error(`Invalid escape sequence: '${escape}${hex}'`)
+      }
+      result += String.fromCharCode(parseInt(hex, 16))
+      i += 2
+    }
+    return result
+  })
+}
+
+/**
+ * Join encodings with `delimiter`, escaping values; absent encodings become empty segments
+ * and valueless ones a lone `escape` (the inverse of `splitEscaped`)
+ */
+function joinEscaped(encodings: Encoded[], delimiter: string, escape: string): string {
+  return encodings.map(encoded => {
+    if (encoded === undefined) return ''
+    return encoded === '' ? escape : escapeValue(encoded, delimiter, escape)
+  }).join(delimiter)
+}
+
+/**
+ * Drop trailing absent encodings (fields at their default)
+ */
+function trimAbsent(encodings: Encoded[]): Encoded[] {
+  let end = encodings.length
+  while (end > 0 && encodings[end - 1] === undefined) end--
+  return encodings.slice(0, end)
+}
+
+/**
+ * Compose several params into one URL value.
+ *
+ * Positional (default): each field's encoding, in declaration order, joined by `delimiter`;
+ * fields at their default (encoded as absent) are empty, and trailing ones are trimmed.
+ * Tagged (`tags` option): each non-default field as `<tag><value>`.
+ *
+ * Delimiter and escape characters inside values are escaped, so any sub-params compose safely.
+ * Missing, unknown, or extra fields are ignored on decode (each field falls back to its own
+ * default); malformed escapes decode every field's default.
+ *
+ * @example
+ * ```ts
+ * const filterParam = objectParam({
+ *   sort: enumParam('a', ['a', 'b']),
+ *   page: intParam(0),
+ *   raw: boolParam,
+ * })
+ * // { sort: 'b', page: 3, raw: true }  → "b.3.~"
+ * // { sort: 'a', page: 3, raw: false } → ".3"
+ * // { sort: 'a', page: 0, raw: false } → (omitted)
+ *
+ * const tagged = objectParam({ sort: enumParam('a', ['a', 'b']), page: intParam(0) }, {
+ *   tags: { sort: 's', page: 'p' },
+ * })
+ * // { sort: 'b', page: 3 } → "sb.p3"
+ * ```
+ */
+export function objectParam<F extends ParamFields>(
+  fields: F,
+  opts: ObjectParamOptions<F> = {},
+): Param<ObjectParamValue<F>> {
+  const { delimiter = '.', escape = '~', tags } = opts
+  checkSeparators(delimiter, escape)
+  const keys: (keyof F & string)[] = Object.keys(fields)
+
+  if (tags) {
+    const tagList = keys.map(key => tags[key])
+    for (const tag of tagList) {
+      if (!tag || tag.includes(delimiter) || tag.includes(escape)) {
+        throw new Error(`Invalid tag '${tag}': must be non-empty, without '${delimiter}' or '${escape}'`)
+      }
+      const clash = tagList.find(other => other !== tag && other.startsWith(tag))
+      if (clash !== undefined || tagList.indexOf(tag) !== tagList.lastIndexOf(tag)) {
+        throw new Error(`Tags must be prefix-free: '${tag}' clashes with '${clash ?? tag}'`)
+      }
+    }
+  }
+
+  function decodeFields(encodedFields: Partial<Record<keyof F, Encoded>>): ObjectParamValue<F> {
+    const value = {} as ObjectParamValue<F>
+    for (const key of keys) {
+      value[key] = fields[key].decode(encodedFields[key])
+    }
+    return value
+  }
+
+  return {
+    encode: (value) => {
+      const encodedFields = keys.map(key => fields[key].encode(value[key]))
+      if (tags) {
+        const segments = keys.flatMap((key, i) => {
+          const encoded = encodedFields[i]
+          return encoded === undefined ? [] : [tags[key] + escapeValue(encoded, delimiter, escape)]
+        })
+        return segments.length ? segments.join(delimiter) : undefined
+      }
+      const trimmed = trimAbsent(encodedFields)
+      return trimmed.length ? joinEscaped(trimmed, delimiter, escape) : undefined
+    },
+    decode: (encoded) => {
+      if (encoded === undefined || encoded === '') return decodeFields({})
+      const encodedFields: Partial<Record<keyof F, Encoded>> = {}
+      try {
+        if (tags) {
+          // Split first so tags are matched against raw (unescaped) segment starts
+          for (const segment of encoded.split(delimiter)) {
+            const key = keys.find(k => segment.startsWith(tags[k]))
+            if (key === undefined) continue
+            const [value] = splitEscaped(segment.slice(tags[key].length), delimiter, escape)
+            encodedFields[key] = value ?? ''
+          }
+        } else {
+          const segments = splitEscaped(encoded, delimiter, escape)
+          keys.forEach((key, i) => { encodedFields[key] = segments[i] })
+        }
+      } catch {
+        return decodeFields({})
+      }
+      return decodeFields(encodedFields)
+    },
+  }
+}
+
+/**
+ * Options for listParam
+ */
+export interface ListParamOptions<T> {
+  /** Value when the param is missing or malformed (default: `[]`); omitted from the URL */
+  default?: T[]
+  /**
+   * Separator between elements (a single character)
+   * @default ','
+   */
+  delimiter?: string
+  /**
+   * Escape character for delimiters inside element encodings (see `objectParam`)
+   * @default '~'
+   */
+  escape?: string
+}
+
+/**
+ * List of values sharing one element param, joined by `delimiter`.
+ *
+ * Element encodings containing the delimiter are escaped (`a,b` → `a~2Cb`). The empty list is a
+ * valueless param (`?k`), while a list of one empty (valueless-encoded) element is `?k=~`,
+ * so `[]` and `['']` stay distinct. Elements at their own default (encoded as absent) are empty segments
+ * (a lone one is written `~~`).
+ *
+ * @example
+ * ```ts
+ * const tagsParam = listParam(stringParam())
+ * // ['a', 'b,c'] → "a,b~2Cc";  [] → (omitted);  [''] → "~"
+ *
+ * const colsParam = listParam(stringParam(), { default: ['name', 'date'] })
+ * // [] → "" (`?k`);  ['name', 'date'] → (omitted)
+ *
+ * const sizesParam = listParam(enumParam('s', ['s', 'm', 'l']), { delimiter: '.' })
+ * // ['m', 'l'] → "m.l"
+ *
+ * const pricesParam = listParam(floatParam({ default: 0, encoding: 'string', decimals: 2 }))
+ * // [1.5, 2] → "1.50,2.00"
+ * ```
+ */
+export function listParam<T>(element: Param<T>, opts: ListParamOptions<T> = {}): Param<T[]> {
+  const { default: init = [], delimiter = ',', escape = '~' } = opts
+  checkSeparators(delimiter, escape)
+  const absentElement = escape + escape
+
+  const encodeList = (values: T[]): string => {
+    if (values.length === 0) return ''
+    const joined = joinEscaped(values.map(v => element.encode(v)), delimiter, escape)
+    return joined === '' ? absentElement : joined
+  }
+  const initEncoded = encodeList(init)
+
+  return {
+    encode: (values) => {
+      const encoded = encodeList(values)
+      return encoded === initEncoded ? undefined : encoded
+    },
+    decode: (encoded) => {
+      if (encoded === undefined) return init
+      if (encoded === '') return []
+      if (encoded === absentElement) return [element.decode(undefined)]
+      try {
+        return splitEscaped(encoded, delimiter, escape).map(e => element.decode(e))
+      } catch {
+        return init
+      }
+    },
+  }
+}
+
+/**
+ * Value type described by a tuple of params
+ */
+export type TupleParamValue<P extends readonly Param<any>[]> = {
+  -readonly [K in keyof P]: P[K] extends Param<infer T> ? T : never
+}
+
+/**
+ * Options for tupleParam
+ */
+export interface TupleParamOptions {
+  /**
+   * Separator between elements (a single character)
+   * @default ','
+   */
+  delimiter?: string
+  /**
+   * Escape character (see `objectParam`)
+   * @default '~'
+   */
+  escape?: string
+}
+
+/**
+ * Fixed-length tuple, one param per position. Like a positional `objectParam`: elements at their
+ * default are empty, trailing ones are trimmed, and the param is omitted when all are default.
+ *
+ * @example
+ * ```ts
+ * const cellParam = tupleParam([enumParam('a', ['a', 'b']), intParam(0), floatParam({ default: 0, encoding: 'string', decimals: 1 })])
+ * // Param<['a' | 'b', number, number]>
+ * // ['b', 3, 0.5] → "b,3,0.5";  ['a', 3, 0] → ",3"
+ * ```
+ */
+export function tupleParam<const P extends readonly Param<any>[]>(
+  params: P,
+  opts: TupleParamOptions = {},
+): Param<TupleParamValue<P>> {
+  const { delimiter = ',', escape = '~' } = opts
+  checkSeparators(delimiter, escape)
+
+  const decodeAll = (encodings: Encoded[]) =>
+    params.map((param, i) => param.decode(encodings[i])) as TupleParamValue<P>
+
+  return {
+    encode: (values) => {
+      const trimmed = trimAbsent(params.map((param, i) => param.encode(values[i])))
+      return trimmed.length ? joinEscaped(trimmed, delimiter, escape) : undefined
+    },
+    decode: (encoded) => {
+      if (encoded === undefined || encoded === '') return decodeAll([])
+      try {
+        return decodeAll(splitEscaped(encoded, delimiter, escape))
+      } catch {
+        return decodeAll([])
+      }
+    },
+  }
+}
@@ -0,0 +1,183 @@
+import { describe, it, expect, expectTypeOf } from 'vitest'
+import { compressedParam, decodeCompressedBytes, deflateRaw, encodeCompressedBytes, inflateRaw } from './compress'
+import { base64Decode } from './binary'
+import { jsonParam } from './json'
+import { stringParam } from './params'
+import type { Param } from './index'
+
+const utf8 = (str: string) => new TextEncoder().encode(str)
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes)
+
+describe('deflateRaw / inflateRaw', () => {
+  it('roundtrips', () => {
+    const inputs = [
+      '',
+      'a',
+      'hello world',
+      'abcabcabcabcabcabcabcabcabc',
+      'x'.repeat(1000),
+      '{"filters":[{"field":"name","op":"eq","value":"a"},{"field":"name","op":"eq","value":"b"}]}',
+      '日本語テキスト 🎉'.repeat(5),
+    ]
+    for (const input of inputs) {
+      expect(text(inflateRaw(deflateRaw(utf8(input))))).toBe(input)
+    }
+  })
+
+  it('roundtrips binary data and long-distance matches', () => {
+    const bytes = new Uint8Array(70000)
+    let seed = 1
+    for (let i = 0; i < 40000; i++) {
+      seed = (seed * 1103515245 + 12345) >>> 0
+      bytes[i] = seed >>> 24
+    }
+    // Repeat earlier (random) data, near the far end of the 32K window
+    bytes.copyWithin(40000, 40000 - 32768, 40000 - 32768 + 30000)
+    expect(inflateRaw(deflateRaw(bytes))).toEqual(bytes)
+  })
+
+  it('compresses repetitive input', () => {
+    expect(deflateRaw(utf8('x'.repeat(1000))).length).toBeLessThan(20)
+  })
+
+  it('inflates zlib stored, fixed and dynamic blocks', () => {
+    // zlib.deflateRawSync('hello', { level: 0 })
+    expect(text(inflateRaw(new Uint8Array([1, 5, 0, 250, 255, 104, 101, 108, 108, 111])))).toBe('hello')
+
+    // zlib.deflateRawSync(...) (fixed Huffman)
+    const fixed = new Uint8Array([75, 76, 76, 76, 76, 76, 194, 3, 146, 49, 64, 10, 50, 80, 72, 77, 77, 77, 85, 72, 76, 74, 134, 35, 133, 42, 8, 0, 0])
+    expect(text(inflateRaw(fixed))).toBe('aaaaabbbbbbbbbbbbbbbbbbbbbbbbbbbbccccccccccccccccccddddddddddddd eeee abcabcabcabc zzzzzzz')
+
+    const dynamic = base64Decode('Nc5BCgAhDATBtw44kIAkECf_X9S1z3Vo0owAOOiu7taShKpC5pyMCPI3GroGC1JWFZPPyEzHwB3dnYsSn1FEaBvsRrqzu_mMUteAMMv3c40kHYM5ERH5AQ')
+    expect(text(inflateRaw(dynamic))).toBe(
+      'eehheaaaedeiituuutstttarrraoollennneeehheaaatdtiituuuasattorrreoellennneethhtaaatdaiiauuuosetterrreoelltnnntethhaaaaadoiieuuuesetterrrtotlltnnnaeahhoaaaedeiieuuuesttttrrrtoallannno'
+    )
+  })
+
+  it('throws on malformed input', () => {
+    expect(() => inflateRaw(new Uint8Array([]))).toThrow('Unexpected end')
+    expect(() => inflateRaw(new Uint8Array([7]))).toThrow('Invalid deflate block type')
+    expect(() => inflateRaw(new Uint8Array([1, 5, 0, 0, 0]))).toThrow('length mismatch')
+    expect(() => inflateRaw(deflateRaw(utf8('hello world')).slice(0, 4))).toThrow('Unexpected end')
+  })
+
+  it('caps output length', () => {
+    const bomb = deflateRaw(new Uint8Array(2_000_000))
+    expect(bomb.length).toBeLessThan(20_000)
+    expect(() => inflateRaw(bomb)).toThrow('Inflated output exceeds 1048576 bytes')
+    const inflated = inflateRaw(bomb, 2_000_000)
+    expect(inflated.length).toBe(2_000_000)
+    expect(inflated.every(b => b === 0)).toBe(true)
+    expect(() => inflateRaw(deflateRaw(utf8('hello world')), 10)).toThrow('exceeds 10 bytes')
+    // Stored block
+    expect(() => inflateRaw(new Uint8Array([1, 5, 0, 250, 255, 104, 101, 108, 108, 111]), 4)).toThrow('exceeds 4 bytes')
+    expect(text(inflateRaw(new Uint8Array([1, 5, 0, 250, 255, 104, 101, 108, 108, 111]), 5))).toBe('hello')
+  })
+})
+
+describe('encodeCompressedBytes / decodeCompressedBytes', () => {
+  it('roundtrips with a header', () => {
+    expect(encodeCompressedBytes(new Uint8Array([1, 2, 3]))).toBe('.AQID')
+    expect(decodeCompressedBytes('.AQID')).toEqual(new Uint8Array([1, 2, 3]))
+    const zeros = new Uint8Array(200)
+    const encoded = encodeCompressedBytes(zeros, 'base62')
+    expect(encoded).toMatch(/^z[0-9A-Za-z]+$/)
+    expect(decodeCompressedBytes(encoded, 'base62')).toEqual(zeros)
+    expect(() => decodeCompressedBytes(encoded, 'base62', 100)).toThrow('exceeds 100 bytes')
+  })
+
+  it('throws on a missing header', () => {
+    expect(() => decodeCompressedBytes('AQID')).toThrow("Invalid compressed header: 'A'")
+    expect(() => decodeCompressedBytes('')).toThrow("Invalid compressed header: ''")
+  })
+})
+
+describe('compressedParam', () => {
+  const filters = {
+    filters: Array.from({ length: 6 }, (_, i) => ({ field: 'status', op: 'eq', value: `value${i}` })),
+  }
+  const init = { filters: [] as typeof filters.filters }
+
+  it('wraps a param, keeping its type and default', () => {
+    const param = compressedParam(jsonParam(init))
+    expectTypeOf(param).toEqualTypeOf<Param<typeof init>>()
+    expect(param.encode(init)).toBeUndefined()
+    expect(param.decode(undefined)).toEqual(init)
+  })
+
+  it('deflates long encodings', () => {
+    const inner = jsonParam(init)
+    const param = compressedParam(inner)
+    const encoded = param.encode(filters)!
+    expect(encoded[0]).toBe('z')
+    expect(encoded.length).toBeLessThan(inner.encode(filters)!.length)
+    expect(param.decode(encoded)).toEqual(filters)
+  })
+
+  it('falls back to plain encoding when compression does not help', () => {
+    const param = compressedParam(jsonParam(init))
+    const small = { filters: [{ field: 'a', op: 'eq', value: 'b' }] }
+    expect(param.encode(small)).toBe('.(filters:!((field:a,op:eq,value:b)))')
+    expect(param.decode('.(filters:!((field:a,op:eq,value:b)))')).toEqual(small)
+
+    const str = compressedParam(stringParam())
+    expect(str.encode('')).toBe('.')
+    expect(str.decode('.')).toBe('')
+    expect(str.encode('x'.repeat(100))).toMatch(/^z/)
+    expect(str.decode(str.encode('x'.repeat(100)))).toBe('x'.repeat(100))
+  })
+
+  it('supports other alphabets', () => {
+    for (const alphabet of ['base62', 'query'] as const) {
+      const param = compressedParam(jsonParam(init), { alphabet })
+      const encoded = param.encode(filters)!
+      expect(encoded).toMatch(/^z/)
+      expect(param.decode(encoded)).toEqual(filters)
+    }
+    const base62 = compressedParam(jsonParam(init), { alphabet: 'base62' }).encode(filters)!
+    expect(base62.slice(1)).toMatch(/^[0-9A-Za-z]+$/)
+    expect(() => compressedParam(stringParam(), { alphabet: 'a' })).toThrow()
+  })
+
+  it('decodes malformed values to the default', () => {
+    const param = compressedParam(jsonParam(init))
+    expect(param.decode('zAAAA')).toEqual(init)
+    expect(param.decode('z')).toEqual(init)
+    expect(param.decode('x(filters:!())')).toEqual(init)
+    expect(param.decode('')).toEqual(init)
+  })
+
+  it('decodes oversized payloads to the default', () => {
+    const param = compressedParam(stringParam('-'))
+    const huge = param.encode('x'.repeat(2_000_000))!
+    expect(huge.length).toBeLessThan(20_000)
+    expect(param.decode(huge)).toBe('-')
+    expect(compressedParam(stringParam('-'), { maxOutputLength: 2_000_000 }).decode(huge)).toBe('x'.repeat(2_000_000))
+  })
+
+  describe('with a bytes codec', () => {
+    const param = compressedParam({
+      toBytes: (values: number[]) => new Uint8Array(values),
+      fromBytes: (bytes) => Array.from(bytes),
+    })
+
+    it('returns a nullable param', () => {
+      expectTypeOf(param).toEqualTypeOf<Param<number[] | null>>()
+      expect(param.encode(null)).toBeUndefined()
+      expect(param.encode([])).toBeUndefined()
+      expect(param.decode(undefined)).toBeNull()
+      expect(param.decode('zAAAA')).toBeNull()
+    })
+
+    it('deflates or stores base64 bytes', () => {
+      expect(param.encode([1, 2, 3])).toBe('.AQID')
+      expect(param.decode('.AQID')).toEqual([1, 2, 3])
+
+      const zeros = new Array(200).fill(0)
+      const encoded = param.encode(zeros)!
+      expect(encoded).toMatch(/^z/)
+      expect(encoded.length).toBeLessThan(10)
+      expect(param.decode(encoded)).toEqual(zeros)
+    })
+  })
+})
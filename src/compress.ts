@@ -0,0 +1,440 @@
+/**
+ * Compressed params
+ *
+ * A small, synchronous, dependency-free raw DEFLATE (RFC 1951) implementation, so large
+ * state blobs can be compressed inside `Param.encode` / `Param.decode` (unlike the async
+ * `CompressionStream` API).
+ */
+
+import type { Param } from './index.js'
+import { decodeBytes, encodeBytes, type Alphabet } from './binary.js'
+import { isBase64Alphabet, resolveRadixAlphabet, type RadixAlphabet } from './radix.js'
+
+/** Base match length for length codes 257..285 */
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258]
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0]
+
+/** Base distance for distance codes 0..29 */
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577]
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13]
+
+/** Order of code length code lengths in dynamic block headers */
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15]
+
+const MAX_BITS = 15
+const WINDOW_SIZE = 32768
+const MIN_MATCH = 3
+const MAX_MATCH = 258
+
+/**
+ * Default cap on inflated size. URL values are decoded on every page load, so a small,
+ * highly-compressed link mustn't be able to expand into gigabytes.
+ */
+export const DEFAULT_MAX_OUTPUT_LENGTH = 1 << 20
+
+/**
+ * Canonical Huffman code, as symbol counts per code length and symbols in code order
+ */
+interface Huffman {
+  counts: Uint16Array
+  symbols: Uint16Array
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(MAX_BITS + 1)
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++
+  counts[0] = 0
+
+  const offsets = new Uint16Array(MAX_BITS + 2)
+  for (let len = 1; len <= MAX_BITS; len++) offsets[len + 1] = offsets[len] + counts[len]
+
+  const symbols = new Uint16Array(lengths.length)
+  for (let sym = 0; sym < lengths.length; sym++) {
+    if (lengths[sym]) symbols[offsets[lengths[sym]]++] = sym
+  }
+  return { counts, symbols }
+}
+
+/** Code lengths of the fixed literal/length and distance codes (RFC 1951 §3.2.6) */
+const FIXED_LIT_LENGTHS = Array.from({ length: 288 }, (_, sym) => sym < 144 ? 8 : sym < 256 ? 9 : sym < 280 ? 7 : 8)
+const FIXED_LIT = buildHuffman(FIXED_LIT_LENGTHS)
+const FIXED_DIST = buildHuffman(new Array(30).fill(5))
+
+/**
+ * Inflate raw DEFLATE data (no zlib or gzip wrapper)
+ * @param maxOutputLength - Maximum inflated size in bytes (default 1 MiB)
+ * @throws Error on malformed input, or output exceeding `maxOutputLength`
+ */
+export function inflateRaw(data: Uint8Array, maxOutputLength = DEFAULT_MAX_OUTPUT_LENGTH): Uint8Array {
+  let bitBuf = 0
+  let bitCount = 0
+  let pos = 0
+  let out = new Uint8Array(Math.min(maxOutputLength, Math.max(256, data.length * 4)))
+  let outLen = 0
+
+  // Make room for `n` more output bytes, doubling the buffer up to the cap
+  function reserve(n: number): void {
+    const needed = outLen + n
+    if (needed > maxOutputLength) throw new Error(`Inflated output exceeds ${maxOutputLength} bytes`)
+    if (needed <= out.length) return
+    let size = out.length * 2
+    while (size < needed) size *= 2
+    const grown = new Uint8Array(Math.min(size, maxOutputLength))
+    grown.set(out.subarray(0, outLen))
+    out = grown
+  }
+
+  function bits(n: number): number {
+    while (bitCount < n) {
+      if (pos >= data.length) throw new Error('Unexpected end of deflate data')
+      bitBuf |= data[pos++] << bitCount
+      bitCount += 8
+    }
+    const value = bitBuf & ((1 << n) - 1)
+    bitBuf >>>= n
+    bitCount -= n
+    return value
+  }
+
+  function decodeSymbol({ counts, symbols }: Huffman): number {
+    let code = 0
+    let first = 0
+    let index = 0
+    for (let len = 1; len <= MAX_BITS; len++) {
+      code |= bits(1)
+      const count = counts[len]
+      if (code - first < count) return symbols[index + code - first]
+      index += count
+      first = (first + count) << 1
+      code <<= 1
+    }
+    throw new Error('Invalid Huffman code')
+  }
+
+  function inflateBlock(lit: Huffman, dist: Huffman): void {
+    for (;;) {
+      const sym = decodeSymbol(lit)
+      if (sym < 256) {
+        reserve(1)
+        out[outLen++] = sym
+      } else if (sym === 256) {
+        return
+      } else {
+        const lenIdx = sym - 257
+        if (lenIdx >= LENGTH_BASE.length) throw new Error(`Invalid length symbol: ${sym}`)
+        const length = LENGTH_BASE[lenIdx] + bits(LENGTH_EXTRA[lenIdx])
+        const distIdx = decodeSymbol(dist)
+        if (distIdx >= DIST_BASE.length) throw new Error(`Invalid distance symbol: ${distIdx}`)
+        const distance = DIST_BASE[distIdx] + bits(DIST_EXTRA[distIdx])
+        if (distance > outLen) throw new Error('Distance too far back')
+        reserve(length)
+        // Byte by byte: the match may overlap the bytes it produces
+        for (let i = 0; i < length; i++, outLen++) out[outLen] = out[outLen - distance]
+      }
+    }
+  }
+
+  function readDynamic(): [Huffman, Huffman] {
+    const numLit = bits(5) + 257
+    const numDist = bits(5) + 1
+    const numCodeLen = bits(4) + 4
+    const codeLenLengths = new Array(19).fill(0)
+    for (let i = 0; i < numCodeLen; i++) codeLenLengths[CODE_LENGTH_ORDER[i]] = bits(3)
+    const codeLen = buildHuffman(codeLenLengths)
+
+    const lengths: number[] = []
+    while (lengths.length < numLit + numDist) {
+      const sym = decodeSymbol(codeLen)
+      if (sym < 16) {
+        lengths.push(sym)
+      } else {
+        let repeat: number
+        let value = 0
+        if (sym === 16) {
+          if (!lengths.length) throw new Error('Repeat with no previous length')
+          value = lengths[lengths.length - 1]
+          repeat = 3 + bits(2)
+        } else if (sym === 17) {
+          repeat = 3 + bits(3)
+        } else {
+          repeat = 11 + bits(7)
+        }
+        if (lengths.length + repeat > numLit + numDist) throw new Error('Too many code lengths')
+        for (let i = 0; i < repeat; i++) lengths.push(value)
+      }
+    }
+    return [buildHuffman(lengths.slice(0, numLit)), buildHuffman(lengths.slice(numLit))]
+  }
+
+  let final = 0
+  while (!final) {
+    final = bits(1)
+    const type = bits(2)
+    if (type === 0) {
+      // Stored: skip to byte boundary, then LEN and its complement
+      bitBuf = 0
+      bitCount = 0
+      if (pos + 4 > data.length) throw new Error('Unexpected end of deflate data')
+      const len = data[pos] | (data[pos + 1] << 8)
+      const nlen = data[pos + 2] | (data[pos + 3] << 8)
+      if (len !== (~nlen & 0xffff)) throw new Error('Stored block length mismatch')
+      pos += 4
+      if (pos + len > data.length) throw new Error('Unexpected end of deflate data')
+      reserve(len)
+      out.set(data.subarray(pos, pos + len), outLen)
+      outLen += len
+      pos += len
+    } else if (type === 1) {
+      inflateBlock(FIXED_LIT, FIXED_DIST)
+    } else if (type === 2) {
+      const [lit, dist] = readDynamic()
+      inflateBlock(lit, dist)
+    } else {
+      throw new Error('Invalid deflate block type')
+    }
+  }
+  return out.slice(0, outLen)
+}
+
+/**
+ * Index of the last base ≤ value
+ */
+function baseIndex(bases: number[], value: number): number {
+  let i = bases.length - 1
+  while (bases[i] > value) i--
+  return i
+}
+
+/**
+ * Deflate bytes to raw DEFLATE data (no zlib or gzip wrapper).
+ *
+ * Uses LZ77 with hash chains and the fixed Huffman code: simple and fast, and close to
+ * optimal for the short inputs URL params hold. Output is readable by any inflater
+ * (`inflateRaw`, zlib's `inflateRaw`, `DecompressionStream('deflate-raw')`).
+ */
+export function deflateRaw(data: Uint8Array): Uint8Array {
+  const out: number[] = []
+  let bitBuf = 0
+  let bitCount = 0
+
+  function writeBits(value: number, n: number): void {
+    bitBuf |= value << bitCount
+    bitCount += n
+    while (bitCount >= 8) {
+      out.push(bitBuf & 0xff)
+      bitBuf >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  // Huffman codes are packed most-significant bit first
+  function writeCode(code: number, len: number): void {
+    let reversed = 0
+    for (let i = 0; i < len; i++) reversed |= ((code >> i) & 1) << (len - 1 - i)
+    writeBits(reversed, len)
+  }
+
+  function writeLiteral(sym: number): void {
+    if (sym < 144) writeCode(0x30 + sym, 8)
+    else if (sym < 256) writeCode(0x190 + sym - 144, 9)
+    else if (sym < 280) writeCode(sym - 256, 7)
+    else writeCode(0xc0 + sym - 280, 8)
+  }
+
+  function writeMatch(length: number, distance: number): void {
+    const lenIdx = baseIndex(LENGTH_BASE, length)
+    writeLiteral(257 + lenIdx)
+    writeBits(length - LENGTH_BASE[lenIdx], LENGTH_EXTRA[lenIdx])
+    const distIdx = baseIndex(DIST_BASE, distance)
+    writeCode(distIdx, 5)
+    writeBits(distance - DIST_BASE[distIdx], DIST_EXTRA[distIdx])
+  }
+
+  // Single final block with fixed Huffman codes
+  writeBits(1, 1)
+  writeBits(1, 2)
+
+  const HASH_SIZE = 1 << 15
+  const MAX_CHAIN = 128
+  const head = new Int32Array(HASH_SIZE).fill(-1)
+  const prev = new Int32Array(Math.min(data.length, WINDOW_SIZE)).fill(-1)
+  const hashAt = (i: number) => ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & (HASH_SIZE - 1)
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > data.length) return
+    const h = hashAt(i)
+    prev[i % WINDOW_SIZE] = head[h]
+    head[h] = i
+  }
+
+  let i = 0
+  while (i < data.length) {
+    let bestLen = 0
+    let bestDist = 0
+    if (i + MIN_MATCH <= data.length) {
+      const maxLen = Math.min(MAX_MATCH, data.length - i)
+      let candidate = head[hashAt(i)]
+      for (let chain = 0; candidate >= 0 && i - candidate <= WINDOW_SIZE && chain < MAX_CHAIN; chain++) {
+        let len = 0
+        while (len < maxLen && data[candidate + len] === data[i + len]) len++
+        if (len > bestLen) {
+          bestLen = len
+          bestDist = i - candidate
+          if (len === maxLen) break
+        }
+        const next = prev[candidate % WINDOW_SIZE]
+        if (next >= candidate) break
+        candidate = next
+      }
+    }
+
+    if (bestLen >= MIN_MATCH) {
+      writeMatch(bestLen, bestDist)
+      for (let j = 0; j < bestLen; j++) insert(i + j)
+      i += bestLen
+    } else {
+      writeLiteral(data[i])
+      insert(i)
+      i++
+    }
+  }
+
+  writeLiteral(256)
+  if (bitCount > 0) out.push(bitBuf & 0xff)
+  return new Uint8Array(out)
+}
+
+/**
+ * Converts values to and from bytes (as for `binaryParam`)
+ */
+export interface BytesCodec<T> {
+  toBytes: (value: T) => Uint8Array
+  fromBytes: (bytes: Uint8Array) => T
+}
+
+/**
+ * Options for compressedParam
+ */
+export interface CompressedParamOptions {
+  /**
+   * Alphabet for the compressed payload: base64 preset or 64-char string, or a radix
+   * preset / 2–90-char string for radix-N
+   * @default 'rfc4648'
+   */
+  alphabet?: Alphabet | RadixAlphabet
+  /**
+   * Maximum inflated size in bytes; larger payloads decode like malformed input
+   * @default 1048576 (1 MiB)
+   */
+  maxOutputLength?: number
+}
+
+/** Header: the rest is deflated bytes in the chosen alphabet */
+const DEFLATED = 'z'
+/** Header: the rest is the plain (uncompressed) encoding */
+const PLAIN = '.'
+
+/**
+ * `z` + `bytes` deflated, or `.` + `plain` when that's no longer
+ */
+function compressEncoded(bytes: Uint8Array, plain: string, alphabet?: Alphabet | RadixAlphabet): string {
+  const deflated = DEFLATED + encodeBytes(deflateRaw(bytes), alphabet)
+  return deflated.length < PLAIN.length + plain.length ? deflated : PLAIN + plain
+}
+
+/**
+ * Encode bytes as `compressedParam` does for a bytes codec: a `z` header and the deflated
+ * bytes, or a `.` header and the bytes themselves (whichever is shorter), in `alphabet`
+ */
+export function encodeCompressedBytes(bytes: Uint8Array, alphabet?: Alphabet | RadixAlphabet): string {
+  return compressEncoded(bytes, encodeBytes(bytes, alphabet), alphabet)
+}
+
+/**
+ * Decode a string written by `encodeCompressedBytes`
+ * @throws Error on a missing header, malformed payload, or output over `maxOutputLength`
+ */
+export function decodeCompressedBytes(
+  encoded: string,
+  alphabet?: Alphabet | RadixAlphabet,
+  maxOutputLength?: number,
+): Uint8Array {
+  if (encoded.startsWith(PLAIN)) return decodeBytes(encoded.slice(PLAIN.length), alphabet)
+  if (encoded.startsWith(DEFLATED)) {
+    return inflateRaw(decodeBytes(encoded.slice(DEFLATED.length), alphabet), maxOutputLength)
+  }
+  throw new Error(`Invalid compressed header: '${encoded[0] ?? ''}'`)
+}
+
+/**
+ * Compress another param's encoding (or a bytes codec's output) with DEFLATE.
+ *
+ * The URL value is a one-character header, then either `z` + the deflated bytes in base64
+ * (or the chosen alphabet), or `.` + the plain encoding when compression doesn't make it
+ * shorter. For a wrapped param, "plain" is its own URL string; for a codec, its bytes in the
+ * chosen alphabet.
+ *
+ * A wrapped param keeps its default (omitted from the URL, used on missing or malformed input);
+ * a codec param decodes missing or malformed input to `null`, like `binaryParam`. Payloads that
+ * would inflate past `maxOutputLength` count as malformed.
+ *
+ * @example
+ * ```ts
+ * const filtersParam = compressedParam(jsonParam({ filters: [] }))
+ * // one filter:   ?f=.(filters:!((field:status,op:in,values:!(a))))
+ * // many filters: ?f=z00jLzClJLSq2UtQAMlNzUqyKSxJLSot18gusMvN0yhJzSl...
+ *
+ * const blobParam = compressedParam({ toBytes: encodeBlob, fromBytes: decodeBlob }, { alphabet: 'base62' })
+ * ```
+ */
+export function compressedParam<T>(inner: Param<T>, opts?: CompressedParamOptions): Param<T>
+export function compressedParam<T>(inner: BytesCodec<T>, opts?: CompressedParamOptions): Param<T | null>
+export function compressedParam<T>(
+  inner: Param<T> | BytesCodec<T>,
+  opts: CompressedParamOptions = {},
+): Param<T> | Param<T | null> {
+  const { alphabet, maxOutputLength } = opts
+  // Validate radix alphabets up front
+  if (alphabet !== undefined && !isBase64Alphabet(alphabet)) resolveRadixAlphabet(alphabet)
+
+  if ('encode' in inner) {
+    const param: Param<T> = {
+      encode: (value) => {
+        const encoded = inner.encode(value)
+        if (encoded === undefined) return undefined
+        return compressEncoded(new TextEncoder().encode(encoded), encoded, alphabet)
+      },
+      decode: (encoded) => {
+        if (encoded === undefined || encoded === '') return inner.decode(undefined)
+        try {
+          if (encoded.startsWith(PLAIN)) return inner.decode(encoded.slice(PLAIN.length))
+          if (encoded.startsWith(DEFLATED)) {
+            const bytes = inflateRaw(decodeBytes(encoded.slice(DEFLATED.length), alphabet), maxOutputLength)
+            return inner.decode(new TextDecoder('utf-8', { fatal: true }).decode(bytes))
+          }
+        } catch {
+          // Fall through to the default
+        }
+        return inner.decode(undefined)
+      },
+    }
+    return param
+  }
+
+  const param: Param<T | null> = {
+    encode: (value) => {
+      if (value === null) return undefined
+      const bytes = inner.toBytes(value)
+      if (bytes.length === 0) return undefined
+      return encodeCompressedBytes(bytes, alphabet)
+    },
+    decode: (encoded) => {
+      if (encoded === undefined || encoded === '') return null
+      try {
+        return inner.fromBytes(decodeCompressedBytes(encoded, alphabet, maxOutputLength))
+      } catch {
+        return null
+      }
+    },
+  }
+  return param
+}
@@ -0,0 +1,118 @@
+/**
+ * @vitest-environment happy-dom
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import type { ReactNode } from 'react'
+import { UrlStateProvider, useUrlStateConfig } from './context.js'
+import { useUrlState } from './useUrlState.js'
+import { hashStrategy, queryStrategy, getDefaultStrategy } from './core.js'
+import { intParam } from './index.js'
+
+beforeEach(() => {
+  window.history.replaceState({}, '', '/')
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('useUrlStateConfig', () => {
+  it('falls back to global defaults without a provider', () => {
+    const { result } = renderHook(() => useUrlStateConfig())
+    expect(result.current).toEqual({ strategy: getDefaultStrategy(), push: false, debounce: 0 })
+  })
+
+  it('reads provider settings', () => {
+    const { result } = renderHook(() => useUrlStateConfig(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <UrlStateProvider strategy={hashStrategy} push debounce={100}>{children}</UrlStateProvider>
+      ),
+    })
+    expect(result.current).toEqual({ strategy: hashStrategy, push: true, debounce: 100 })
+  })
+
+  it('per-call options override provider defaults', () => {
+    const { result } = renderHook(() => useUrlStateConfig({ push: false }), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <UrlStateProvider push debounce={100}>{children}</UrlStateProvider>
+      ),
+    })
+    expect(result.current).toEqual({ strategy: getDefaultStrategy(), push: false, debounce: 100 })
+  })
+
+  it('nested providers inherit unset settings', () => {
+    const { result } = renderHook(() => useUrlStateConfig(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <UrlStateProvider strategy={hashStrategy} debounce={100}>
+          <UrlStateProvider push>{children}</UrlStateProvider>
+        </UrlStateProvider>
+      ),
+    })
+    expect(result.current).toEqual({ strategy: hashStrategy, push: true, debounce: 100 })
+  })
+})
+
+describe('UrlStateProvider', () => {
+  it('scopes strategy to a subtree', async () => {
+    const { result } = renderHook(() => useUrlState('n', intParam(0)), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <UrlStateProvider strategy={hashStrategy}>{children}</UrlStateProvider>
+      ),
+    })
+    const { result: queryResult } = renderHook(() => useUrlState('n', intParam(0)), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <UrlStateProvider strategy={queryStrategy}>{children}</UrlStateProvider>
+      ),
+    })
+
+    await act(async () => {
+      result.current[1](5)
+    })
+    expect(window.location.hash).toBe('#n=5')
+    expect(window.location.search).toBe('')
+    expect(result.current[0]).toBe(5)
+    expect(queryResult.current[0]).toBe(0)
+
+    await act(async () => {
+      queryResult.current[1](7)
+    })
+    expect(window.location.search).toBe('?n=7')
+    expect(window.location.hash).toBe('#n=5')
+  })
+
+  it('supplies default debounce to hooks', async () => {
+    vi.useFakeTimers()
+    const { result } = renderHook(() => useUrlState('n', intParam(0)), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <UrlStateProvider debounce={500}>{children}</UrlStateProvider>
+      ),
+    })
+
+    await act(async () => {
+      result.current[1](3)
+    })
+    expect(result.current[0]).toBe(3)
+    expect(window.location.search).toBe('')
+
+    await act(async () => {
+      vi.advanceTimersByTime(600)
+    })
+    expect(window.location.search).toBe('?n=3')
+  })
+
+  it('supplies default push to hooks', async () => {
+    const pushState = vi.spyOn(window.history, 'pushState')
+    const { result } = renderHook(() => useUrlState('n', intParam(0)), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <UrlStateProvider push>{children}</UrlStateProvider>
+      ),
+    })
+
+    await act(async () => {
+      result.current[1](1)
+    })
+    expect(pushState).toHaveBeenCalledTimes(1)
+    pushState.mockRestore()
+  })
+})
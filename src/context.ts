@@ -0,0 +1,91 @@
+/**
+ * React context for scoping location strategy and default hook options to a subtree
+ */
+
+import { createContext, createElement, useContext, useMemo } from 'react'
+import type { ReactNode } from 'react'
+import type { LocationStrategy } from './core.js'
+import { getDefaultStrategy } from './core.js'
+import type { UseUrlStateOptions } from './useUrlState.js'
+
+/**
+ * Props for UrlStateProvider
+ */
+export interface UrlStateProviderProps extends UseUrlStateOptions {
+  /**
+   * Location strategy for hooks in this subtree.
+   * @default inherited from an enclosing provider, else `getDefaultStrategy()`
+   */
+  strategy?: LocationStrategy
+  /**
+   * URL of the current request, for server rendering. Hooks decode it during SSR and
+   * hydration, so server HTML matches the client's first render. Pass the same value on
+   * the server and the client; absolute or path-relative (e.g. `req.url`).
+   * Ignored by strategies without `parseUrl` (e.g. `hashStrategy`), which render defaults
+   * until hydration completes.
+   */
+  serverUrl?: string | URL
+  children?: ReactNode
+}
+
+/**
+ * Settings supplied by the nearest UrlStateProvider(s); unset fields are inherited
+ */
+interface UrlStateContextValue extends UseUrlStateOptions {
+  strategy?: LocationStrategy
+  serverUrl?: string | URL
+}
+
+const UrlStateContext = createContext<UrlStateContextValue | null>(null)
+
+/**
+ * Provide a location strategy and default options to all use-prms hooks in a subtree.
+ * Nested providers inherit any settings they don't override.
+ *
+ * @example
+ * ```tsx
+ * <UrlStateProvider strategy={hashStrategy} debounce={200}>
+ *   <MapView />  // useUrlState() here reads/writes #hash params, debounced
+ * </UrlStateProvider>
+ * ```
+ */
+export function UrlStateProvider({ strategy, serverUrl, push, debounce, children }: UrlStateProviderProps) {
+  const parent = useContext(UrlStateContext)
+  const value = useMemo<UrlStateContextValue>(() => ({
+    strategy: strategy ?? parent?.strategy,
+    serverUrl: serverUrl ?? parent?.serverUrl,
+    push: push ?? parent?.push,
+    debounce: debounce ?? parent?.debounce,
+  }), [strategy, serverUrl, push, debounce, parent])
+  return createElement(UrlStateContext.Provider, { value }, children)
+}
+
+/**
+ * Resolved strategy and options for a hook call
+ */
+export interface UrlStateConfig {
+  strategy: LocationStrategy
+  serverUrl?: string | URL
+  push: boolean
+  debounce: number
+}
+
+/**
+ * Resolve a hook's strategy and options: per-call options, then the nearest
+ * UrlStateProvider, then the global default strategy (and push=false, debounce=0).
+ *
+ * @param options - Per-call options (boolean is legacy shorthand for `push`)
+ */
+export function useUrlStateConfig(options: UseUrlStateOptions | boolean = {}): UrlStateConfig {
+  const ctx = useContext(UrlStateContext)
+  // Handle legacy boolean `push` argument for backwards compatibility
+  const opts: UseUrlStateOptions = typeof options === 'boolean'
+    ? { push: options }
+    : options
+  return {
+    strategy: ctx?.strategy ?? getDefaultStrategy(),
+    serverUrl: ctx?.serverUrl,
+    push: opts.push ?? ctx?.push ?? false,
+    debounce: opts.debounce ?? ctx?.debounce ?? 0,
+  }
+}
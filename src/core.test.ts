@@ -0,0 +1,130 @@
+/**
+ * @vitest-environment happy-dom
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  createHashStrategy,
+  createQueryStrategy,
+  hashStrategy,
+  parseMultiParams,
+  serializeMultiParams,
+} from './core.js'
+
+beforeEach(() => {
+  window.history.replaceState({}, '', '/')
+})
+
+describe('createHashStrategy', () => {
+  it('without separator, whole fragment holds params', () => {
+    window.history.replaceState({}, '', '/#a=1&z')
+    expect(hashStrategy.parse()).toEqual({ a: ['1'], z: [''] })
+    expect(createHashStrategy().parse()).toEqual({ a: ['1'], z: [''] })
+    expect(hashStrategy.buildUrl(new URL('http://x/#old=1'), { b: ['2'] })).toBe('http://x/#b=2')
+  })
+
+  describe("separator '?'", () => {
+    const strategy = createHashStrategy({ separator: '?' })
+
+    it('reads params after the route', () => {
+      window.history.replaceState({}, '', '/#/route/sub?x=1&y=a&y=b')
+      expect(strategy.parse()).toEqual({ x: ['1'], y: ['a', 'b'] })
+    })
+
+    it('treats a fragment without separator as route/anchor only', () => {
+      window.history.replaceState({}, '', '/#/route/sub')
+      expect(strategy.parse()).toEqual({})
+      window.history.replaceState({}, '', '/#section')
+      expect(strategy.parse()).toEqual({})
+    })
+
+    it('preserves route when writing', () => {
+      expect(strategy.buildUrl(new URL('http://x/#/route/sub?x=1'), { x: ['2'], z: [''] }))
+        .toBe('http://x/#/route/sub?x=2&z')
+      expect(strategy.buildUrl(new URL('http://x/#/route/sub'), { x: ['2'] }))
+        .toBe('http://x/#/route/sub?x=2')
+    })
+
+    it('preserves plain anchors', () => {
+      expect(strategy.buildUrl(new URL('http://x/#section'), { x: ['1'] })).toBe('http://x/#section?x=1')
+      expect(strategy.buildUrl(new URL('http://x/#section?x=1'), {})).toBe('http://x/#section')
+    })
+
+    it('writes params without a route', () => {
+      expect(strategy.buildUrl(new URL('http://x/'), { x: ['1'] })).toBe('http://x/#?x=1')
+      expect(strategy.buildUrl(new URL('http://x/#?x=1'), {})).toBe('http://x/')
+    })
+  })
+
+  describe("separator '&'", () => {
+    const strategy = createHashStrategy({ separator: '&' })
+
+    it('reads and writes after the first &', () => {
+      window.history.replaceState({}, '', '/#/route&x=1&y=2')
+      expect(strategy.parse()).toEqual({ x: ['1'], y: ['2'] })
+      expect(strategy.buildUrl(new URL('http://x/#/route&x=1&y=2'), { x: ['3'] }))
+        .toBe('http://x/#/route&x=3')
+    })
+  })
+
+  it('notifies on hashchange', () => {
+    const strategy = createHashStrategy({ separator: '?' })
+    const callback = vi.fn()
+    const unsubscribe = strategy.subscribe(callback)
+    window.dispatchEvent(new HashChangeEvent('hashchange'))
+    expect(callback).toHaveBeenCalledTimes(1)
+    unsubscribe()
+    window.dispatchEvent(new HashChangeEvent('hashchange'))
+    expect(callback).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("serializeMultiParams 'minimal'", () => {
+  it('leaves RFC 3986 safe characters unescaped', () => {
+    const params = { t: ['a,b'], ll: ['40.7_-74'], p: ["/x:y@z?!$'()*;~"] }
+    expect(serializeMultiParams(params)).toBe(
+      't=a%2Cb&ll=40.7_-74&p=%2Fx%3Ay%40z%3F%21%24%27%28%29*%3B%7E'
+    )
+    expect(serializeMultiParams(params, 'minimal')).toBe("t=a,b&ll=40.7_-74&p=/x:y@z?!$'()*;~")
+  })
+
+  it('escapes delimiters and reserved characters', () => {
+    expect(serializeMultiParams({ 'k=1': ['a&b=c#d%e+f g'] }, 'minimal'))
+      .toBe('k%3D1=a%26b=c%23d%25e%2Bf+g')
+  })
+
+  it('escapes characters not allowed in URLs', () => {
+    expect(serializeMultiParams({ q: ['"<>\\^`{|}', 'é', '\uD800'] }, 'minimal'))
+      .toBe('q=%22%3C%3E%5C%5E%60%7B%7C%7D&q=%C3%A9&q=%EF%BF%BD')
+  })
+
+  it('writes valueless and repeated keys in order', () => {
+    expect(serializeMultiParams({ z: [''], a: ['1', '2'], b: ['3'] }, 'minimal')).toBe('z&a=1&a=2&b=3')
+  })
+
+  it('round-trips through parseMultiParams', () => {
+    const params = {
+      'k=1': ['a&b=c#d%e+f g', ''],
+      t: ['a,b', '/x:y@z?!$\'()*;~', 'é "<>"'],
+      z: [''],
+    }
+    expect(parseMultiParams(serializeMultiParams(params, 'minimal'))).toEqual(params)
+  })
+})
+
+describe('strategy encoding option', () => {
+  it('createQueryStrategy writes minimal encoding', () => {
+    const strategy = createQueryStrategy({ encoding: 'minimal' })
+    const url = strategy.buildUrl(new URL('http://x/'), { t: ['a,b'], ll: ['40.7_-74'] })
+    expect(url).toBe('http://x/?t=a,b&ll=40.7_-74')
+    window.history.replaceState({}, '', url.slice('http://x'.length))
+    expect(strategy.parse()).toEqual({ t: ['a,b'], ll: ['40.7_-74'] })
+  })
+
+  it('createHashStrategy writes minimal encoding after the separator', () => {
+    const strategy = createHashStrategy({ separator: '?', encoding: 'minimal' })
+    const url = strategy.buildUrl(new URL('http://x/#/map'), { v: ['1:2/3?'] })
+    expect(url).toBe('http://x/#/map?v=1:2/3?')
+    window.history.replaceState({}, '', url.slice('http://x'.length))
+    expect(strategy.parse()).toEqual({ v: ['1:2/3?'] })
+  })
+})
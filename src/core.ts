@@ -17,15 +17,40 @@ export interface LocationStrategy {
   getRaw(): string
   /** Parse current location to multi-value params */
   parse(): Record<string, MultiEncoded>
+  /**
+   * Parse params from an arbitrary URL, e.g. the request URL during server rendering.
+   * Strategies whose params the server can't see (like the hash) omit this, and render
+   * defaults on the server and during hydration.
+   */
+  parseUrl?(url: URL): Record<string, MultiEncoded>
   /** Build URL string with updated params */
   buildUrl(base: URL, params: Record<string, MultiEncoded>): string
   /** Subscribe to location changes, returns unsubscribe function */
   subscribe(callback: () => void): () => void
+  /** Get the current full URL, used as the base for `buildUrl` (default: `window.location.href`) */
+  getHref?(): string
+  /**
+   * Commit a URL produced by `buildUrl`
+   * (default: `window.history.pushState`/`replaceState`, then a `popstate` event)
+   */
+  navigate?(url: string, push: boolean): void
 }
 
+/**
+ * How param keys and values are escaped when serialized:
+ * - `'form'`: `application/x-www-form-urlencoded`, as produced by `URLSearchParams`
+ *   (also escapes `,`, `:`, `/`, `~`, `!`, `*`, `(`, `)`, etc.)
+ * - `'minimal'`: only escapes `&`, `#`, `%`, `+`, `=` in keys, and characters that aren't
+ *   allowed unencoded in a query or fragment (RFC 3986), so e.g. `a,b` and `40.7_-74` stay readable
+ *
+ * Both encode spaces as `+`, and both are read by `parseMultiParams`.
+ */
+export type ParamEncoding = 'form' | 'minimal'
+
 /**
  * Parse URL string to multi-value params
  * Each key maps to an array of all values for that key
+ * Reads both `'form'` and `'minimal'` encodings (keys and values split on the first `=`)
  */
 export function parseMultiParams(source: string | URLSearchParams): Record<string, MultiEncoded> {
   const searchParams = typeof source === 'string'
@@ -42,11 +67,56 @@ export function parseMultiParams(source: string | URLSearchParams): Record<strin
   return result
 }
 
+/**
+ * Percent-escapes that `'minimal'` encoding reverts (RFC 3986 sub-delims and `:@/?`).
+ * `=` is only reverted in values, since the parser splits keys on the first `=`.
+ */
+const MINIMAL_UNESCAPES: Record<string, string> = {
+  '%20': '+',
+  '%24': '$',
+  '%2C': ',',
+  '%3B': ';',
+  '%3A': ':',
+  '%40': '@',
+  '%2F': '/',
+  '%3F': '?',
+  '%3D': '=',
+}
+
+/**
+ * Escape a key or value for `'minimal'` encoding
+ */
+function encodeMinimal(str: string, isKey: boolean): string {
+  // Replace lone surrogates (which encodeURIComponent rejects), like URLSearchParams does
+  const wellFormed = str.replace(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/g, '\uFFFD')
+  return encodeURIComponent(wellFormed).replace(
+    /%(?:20|24|2C|3B|3A|40|2F|3F|3D)/g,
+    escape => isKey && escape === '%3D' ? escape : MINIMAL_UNESCAPES[escape],
+  )
+}
+
 /**
  * Serialize multi-value params to URL string format
  * Repeated keys are serialized as separate entries: key=a&key=b
+ *
+ * @param params - Multi-value params; `''` values are written as valueless keys (`key`)
+ * @param encoding - Escaping mode (default `'form'`)
  */
-export function serializeMultiParams(params: Record<string, MultiEncoded>): string {
+export function serializeMultiParams(
+  params: Record<string, MultiEncoded>,
+  encoding: ParamEncoding = 'form',
+): string {
+  if (encoding === 'minimal') {
+    const parts: string[] = []
+    for (const [key, values] of Object.entries(params)) {
+      const encodedKey = encodeMinimal(key, true)
+      for (const value of values) {
+        parts.push(value === '' ? encodedKey : `${encodedKey}=${encodeMinimal(value, false)}`)
+      }
+    }
+    return parts.join('&')
+  }
+
   const searchParams = new URLSearchParams()
 
   for (const [key, values] of Object.entries(params)) {
@@ -105,74 +175,150 @@ function patchHistoryApi(): void {
 // Patch on module load
 patchHistoryApi()
 
+/**
+ * Subscribe to browser navigation: popstate, patched pushState/replaceState, and optionally
+ * hashchange. Shared by the window-backed strategies; returns unsubscribe function.
+ */
+export function subscribeToLocation(
+  callback: () => void,
+  { hashchange = false }: { hashchange?: boolean } = {}
+): () => void {
+  if (typeof window === 'undefined') return () => {}
+  const events = hashchange
+    ? ['hashchange', 'popstate', LOCATION_CHANGE_EVENT]
+    : ['popstate', LOCATION_CHANGE_EVENT]
+  for (const event of events) window.addEventListener(event, callback)
+  return () => {
+    for (const event of events) window.removeEventListener(event, callback)
+  }
+}
+
+/**
+ * Options for createQueryStrategy
+ */
+export interface QueryStrategyOptions {
+  /**
+   * How params are escaped when written (see `ParamEncoding`)
+   * @default 'form'
+   */
+  encoding?: ParamEncoding
+}
+
+/**
+ * Create a query string location strategy
+ *
+ * @example
+ * ```ts
+ * // ?ll=40.7_-74&t=a,b instead of ?ll=40.7_-74&t=a%2Cb
+ * const readableQuery = createQueryStrategy({ encoding: 'minimal' })
+ * ```
+ */
+export function createQueryStrategy({ encoding = 'form' }: QueryStrategyOptions = {}): LocationStrategy {
+  return {
+    getRaw(): string {
+      if (typeof window === 'undefined') return ''
+      return window.location.search
+    },
+
+    parse(): Record<string, MultiEncoded> {
+      if (typeof window === 'undefined') return {}
+      return parseMultiParams(window.location.search)
+    },
+
+    parseUrl(url: URL): Record<string, MultiEncoded> {
+      return parseMultiParams(url.search)
+    },
+
+    buildUrl(base: URL, params: Record<string, MultiEncoded>): string {
+      base.search = serializeMultiParams(params, encoding)
+      return base.toString()
+    },
+
+    subscribe(callback: () => void): () => void {
+      return subscribeToLocation(callback)
+    },
+  }
+}
+
 /**
  * Query string location strategy
  * Reads/writes to window.location.search
  */
-export const queryStrategy: LocationStrategy = {
-  getRaw(): string {
-    if (typeof window === 'undefined') return ''
-    return window.location.search
-  },
-
-  parse(): Record<string, MultiEncoded> {
-    if (typeof window === 'undefined') return {}
-    return parseMultiParams(window.location.search)
-  },
-
-  buildUrl(base: URL, params: Record<string, MultiEncoded>): string {
-    base.search = serializeMultiParams(params)
-    return base.toString()
-  },
-
-  subscribe(callback: () => void): () => void {
-    if (typeof window === 'undefined') return () => {}
-    window.addEventListener('popstate', callback)
-    window.addEventListener(LOCATION_CHANGE_EVENT, callback)
-    return () => {
-      window.removeEventListener('popstate', callback)
-      window.removeEventListener(LOCATION_CHANGE_EVENT, callback)
-    }
-  },
+export const queryStrategy: LocationStrategy = createQueryStrategy()
+
+/**
+ * Options for createHashStrategy
+ */
+export interface HashStrategyOptions {
+  /**
+   * Separator between a hash-router path (or plain anchor) and params, e.g. `'?'` for
+   * `#/route/sub?x=1` or `'&'` for `#/route&x=1`. Everything before the first separator is
+   * preserved when writing. Without a separator, the whole fragment holds params.
+   */
+  separator?: '?' | '&'
+  /**
+   * How params are escaped when written (see `ParamEncoding`)
+   * @default 'form'
+   */
+  encoding?: ParamEncoding
+}
+
+/**
+ * Create a hash fragment location strategy.
+ * With a `separator`, params coexist with HashRouter-style routes and plain anchors:
+ * only the part after the separator is read and written.
+ *
+ * @example
+ * ```ts
+ * const routedHash = createHashStrategy({ separator: '?' })
+ * // #/users/42?tab=posts → { tab: ['posts'] }; writes keep "#/users/42"
+ * // #section → {}; writing { z: [''] } gives "#section?z"
+ * ```
+ */
+export function createHashStrategy({ separator, encoding = 'form' }: HashStrategyOptions = {}): LocationStrategy {
+  /** Split a fragment (without leading #) into preserved prefix and params string */
+  function splitHash(fragment: string): { prefix: string; query: string } {
+    if (!separator) return { prefix: '', query: fragment }
+    const idx = fragment.indexOf(separator)
+    if (idx === -1) return { prefix: fragment, query: '' }
+    return { prefix: fragment.slice(0, idx), query: fragment.slice(idx + 1) }
+  }
+
+  return {
+    getRaw(): string {
+      if (typeof window === 'undefined') return ''
+      return window.location.hash
+    },
+
+    parse(): Record<string, MultiEncoded> {
+      if (typeof window === 'undefined') return {}
+      const hash = window.location.hash
+      // Remove leading # if present
+      const hashString = hash.startsWith('#') ? hash.slice(1) : hash
+      return parseMultiParams(splitHash(hashString).query)
+    },
+
+    buildUrl(base: URL, params: Record<string, MultiEncoded>): string {
+      const query = serializeMultiParams(params, encoding)
+      const { prefix } = splitHash(base.hash.slice(1))
+      base.hash = query && separator ? `${prefix}${separator}${query}` : prefix || query
+      return base.toString()
+    },
+
+    subscribe(callback: () => void): () => void {
+      // Listen to hashchange, popstate, and our custom event for all navigation types
+      return subscribeToLocation(callback, { hashchange: true })
+    },
+  }
 }
 
 /**
  * Hash fragment location strategy
  * Reads/writes to window.location.hash
  * Hash is parsed as URLSearchParams format: #key=value&key2=value2
+ * (use `createHashStrategy({ separator })` to coexist with hash-based routers)
  */
-export const hashStrategy: LocationStrategy = {
-  getRaw(): string {
-    if (typeof window === 'undefined') return ''
-    return window.location.hash
-  },
-
-  parse(): Record<string, MultiEncoded> {
-    if (typeof window === 'undefined') return {}
-    const hash = window.location.hash
-    // Remove leading # if present
-    const hashString = hash.startsWith('#') ? hash.slice(1) : hash
-    return parseMultiParams(hashString)
-  },
-
-  buildUrl(base: URL, params: Record<string, MultiEncoded>): string {
-    base.hash = serializeMultiParams(params)
-    return base.toString()
-  },
-
-  subscribe(callback: () => void): () => void {
-    if (typeof window === 'undefined') return () => {}
-    // Listen to hashchange, popstate, and our custom event for all navigation types
-    window.addEventListener('hashchange', callback)
-    window.addEventListener('popstate', callback)
-    window.addEventListener(LOCATION_CHANGE_EVENT, callback)
-    return () => {
-      window.removeEventListener('hashchange', callback)
-      window.removeEventListener('popstate', callback)
-      window.removeEventListener(LOCATION_CHANGE_EVENT, callback)
-    }
-  },
-}
+export const hashStrategy: LocationStrategy = createHashStrategy()
 
 /**
  * Notify all use-prms hooks that the URL has changed.
@@ -10,9 +10,22 @@ import {
   optFloatParam,
   base64FloatParam,
   pointParam,
+  pointsParam,
+  polylineParam,
+  encodePolyline,
+  decodePolyline,
   encodeFloatAllModes,
   encodePointAllModes,
   llzParam,
+  bboxParam,
+  geoCircleParam,
+  geohashEncode,
+  geohashDecode,
+  llzToBBox,
+  bboxToLLZ,
+  type BBox,
+  rangeParam,
+  intRangeParam,
 } from './float'
 
 describe('toFloat/fromFloat', () => {
@@ -121,6 +134,44 @@ describe('BitBuffer', () => {
     })
   })
 
+  describe('encodeFixedPointDeltas/decodeFixedPointDeltas', () => {
+    it('roundtrips to the shared-exponent grid', () => {
+      const buf = new BitBuffer()
+      const scheme = precisionSchemes[1] // 22 mant bits
+      const values = [40.7128, -74.006, 40.7135, -74.005, 40.7142, -74.0041]
+      buf.encodeFixedPointDeltas(values, scheme, { stride: 2 })
+
+      buf.seek(0)
+      const results = buf.decodeFixedPointDeltas(6, scheme, { stride: 2 })
+      results.forEach((r, i) => expect(r).toBeCloseTo(values[i], 4))
+
+      const again = new BitBuffer().encodeFixedPointDeltas(results, scheme, { stride: 2 })
+      expect(again.toBase64()).toBe(buf.toBase64())
+    })
+
+    it('is smaller than encodeFixedPoints for nearby values', () => {
+      const scheme = precisionSchemes[1]
+      const values = Array.from({ length: 20 }, (_, i) => 100 + i * 0.01)
+      const deltas = new BitBuffer().encodeFixedPointDeltas(values, scheme)
+      const full = new BitBuffer().encodeFixedPoints(values, scheme)
+      expect(deltas.end).toBeLessThan(full.end)
+    })
+
+    it('handles zeros, tiny values, and rounding into the next power of 2', () => {
+      const scheme = { expBits: 5, mantBits: 8 }
+      for (const values of [[0, 0], [1e-9, 0], [0.9999, 0.5]]) {
+        const buf = new BitBuffer().encodeFixedPointDeltas(values, scheme)
+        buf.seek(0)
+        const results = buf.decodeFixedPointDeltas(2, scheme)
+        results.forEach((r, i) => expect(r).toBeCloseTo(values[i], 2))
+      }
+    })
+
+    it('throws on values too large for the exponent', () => {
+      expect(() => new BitBuffer().encodeFixedPointDeltas([1e6], precisionSchemes[1])).toThrow('maxExp')
+    })
+  })
+
   describe('toBytes/fromBytes', () => {
     it('roundtrips bytes', () => {
       const buf = new BitBuffer()
@@ -169,6 +220,165 @@ describe('BitBuffer', () => {
       expect(buf2.decodeBigInt(60)).toBe(0x123456789ABCDEFn)
     })
   })
+
+  describe('varuint', () => {
+    it('writes standard LEB128 bytes with 7-bit chunks', () => {
+      const buf = new BitBuffer()
+      buf.encodeVarUint(624485)
+      expect(Array.from(buf.toBytes())).toEqual([0xe5, 0x8e, 0x26])
+      expect(BitBuffer.fromBytes(buf.toBytes()).decodeVarUint()).toBe(624485)
+    })
+
+    it('sizes grow with magnitude', () => {
+      const size = (n: number, chunkBits?: number) => new BitBuffer().encodeVarUint(n, chunkBits).end
+      expect(size(0)).toBe(8)
+      expect(size(3)).toBe(8)
+      expect(size(127)).toBe(8)
+      expect(size(128)).toBe(16)
+      expect(size(50_000)).toBe(24)
+      expect(size(3, 3)).toBe(4)
+      expect(size(50_000, 3)).toBe(24)
+    })
+
+    it('roundtrips mixed values and chunk sizes', () => {
+      const values = [0, 1, 3, 127, 128, 50_000, 2 ** 31, Number.MAX_SAFE_INTEGER]
+      for (const chunkBits of [1, 3, 7, 12]) {
+        const buf = new BitBuffer()
+        buf.encodeInt(5, 3)
+        values.forEach(v => buf.encodeVarUint(v, chunkBits))
+        const buf2 = BitBuffer.fromBase64(buf.toBase64())
+        expect(buf2.decodeInt(3)).toBe(5)
+        expect(values.map(() => buf2.decodeVarUint(chunkBits))).toEqual(values)
+      }
+    })
+
+    it('rejects invalid input', () => {
+      expect(() => new BitBuffer().encodeVarUint(-1)).toThrow('non-negative safe integer')
+      expect(() => new BitBuffer().encodeVarUint(1.5)).toThrow('non-negative safe integer')
+      expect(() => new BitBuffer().encodeVarUint(2 ** 53)).toThrow('non-negative safe integer')
+      expect(() => new BitBuffer().encodeVarUint(1, 0)).toThrow('chunkBits')
+    })
+
+    it('bigint variant handles values beyond 2^53', () => {
+      const big = 2n ** 100n + 12345n
+      const buf = new BitBuffer()
+      buf.encodeBigVarUint(big).encodeBigVarUint(0n, 5)
+      buf.seek(0)
+      expect(buf.decodeBigVarUint()).toBe(big)
+      expect(buf.decodeBigVarUint(5)).toBe(0n)
+
+      buf.seek(0)
+      expect(() => buf.decodeVarUint()).toThrow('MAX_SAFE_INTEGER')
+    })
+
+    it('throws on truncated chunks', () => {
+      // Continuation bit set, but the next chunk has only 4 of its 7 bits
+      const buf = new BitBuffer().encodeInt(1, 1).encodeInt(5, 7).encodeInt(0, 5)
+      buf.seek(0)
+      expect(() => buf.decodeVarUint()).toThrow('Read past end of BitBuffer (13 bits)')
+      buf.seek(0)
+      expect(() => buf.decodeVarInt()).toThrow('Read past end')
+    })
+  })
+
+  describe('zigzag varint', () => {
+    it('maps small magnitudes to short codes', () => {
+      const size = (n: number) => new BitBuffer().encodeVarInt(n, 3).end
+      expect(size(0)).toBe(4)
+      expect(size(-1)).toBe(4)
+      expect(size(3)).toBe(4)
+      expect(size(-4)).toBe(4)
+      expect(size(4)).toBe(8)
+    })
+
+    it('roundtrips signed values', () => {
+      const values = [0, -1, 1, -64, 64, -50_000, Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER]
+      const buf = new BitBuffer()
+      values.forEach(v => buf.encodeVarInt(v))
+      buf.seek(0)
+      expect(values.map(() => buf.decodeVarInt())).toEqual(values)
+    })
+
+    it('bigint variant', () => {
+      const values = [0n, -1n, 1n, -(2n ** 80n), 2n ** 80n]
+      const buf = new BitBuffer()
+      values.forEach(v => buf.encodeBigVarInt(v, 4))
+      buf.seek(0)
+      expect(values.map(() => buf.decodeBigVarInt(4))).toEqual(values)
+    })
+  })
+
+  describe('Elias gamma/delta', () => {
+    it('gamma uses 2⌊log2 n⌋ + 1 bits', () => {
+      const size = (n: number) => new BitBuffer().encodeEliasGamma(n).end
+      expect(size(1)).toBe(1)
+      expect(size(2)).toBe(3)
+      expect(size(3)).toBe(3)
+      expect(size(4)).toBe(5)
+      expect(size(50_000)).toBe(31)
+    })
+
+    it('gamma writes known codes', () => {
+      const buf = new BitBuffer()
+      buf.encodeEliasGamma(1).encodeEliasGamma(2).encodeEliasGamma(5)
+      // 1 | 010 | 00101
+      buf.seek(0)
+      expect(buf.decodeInt(9)).toBe(0b101000101)
+    })
+
+    it('delta is shorter than gamma for large values', () => {
+      const gamma = (n: number) => new BitBuffer().encodeEliasGamma(n).end
+      const delta = (n: number) => new BitBuffer().encodeEliasDelta(n).end
+      expect(delta(1)).toBe(1)
+      expect(delta(2)).toBe(4)
+      expect(delta(50_000)).toBeLessThan(gamma(50_000))
+    })
+
+    it('roundtrips', () => {
+      const values = [1, 2, 3, 7, 8, 1000, 50_000, 2 ** 40, Number.MAX_SAFE_INTEGER]
+      const buf = new BitBuffer()
+      values.forEach(v => buf.encodeEliasGamma(v).encodeEliasDelta(v))
+      const buf2 = BitBuffer.fromBase64(buf.toBase64())
+      for (const v of values) {
+        expect(buf2.decodeEliasGamma()).toBe(v)
+        expect(buf2.decodeEliasDelta()).toBe(v)
+      }
+    })
+
+    it('bigint variants', () => {
+      const big = 3n ** 70n
+      const buf = new BitBuffer()
+      buf.encodeBigEliasGamma(big).encodeBigEliasDelta(big)
+      buf.seek(0)
+      expect(buf.decodeBigEliasGamma()).toBe(big)
+      expect(buf.decodeBigEliasDelta()).toBe(big)
+    })
+
+    it('rejects non-positive values', () => {
+      expect(() => new BitBuffer().encodeEliasGamma(0)).toThrow('positive safe integer')
+      expect(() => new BitBuffer().encodeEliasDelta(-3)).toThrow('positive safe integer')
+      expect(() => new BitBuffer().encodeBigEliasGamma(0n)).toThrow('positive integer')
+    })
+
+    it('throws instead of looping on truncated input', () => {
+      const buf = new BitBuffer()
+      buf.encodeInt(0, 8)
+      buf.seek(0)
+      expect(() => buf.decodeEliasGamma()).toThrow('Read past end')
+    })
+
+    it('throws on truncated payloads', () => {
+      // Gamma prefix for a 7-bit value, followed by only 3 of its 6 payload bits
+      const gamma = new BitBuffer().encodeInt(1, 7).encodeInt(0, 3)
+      gamma.seek(0)
+      expect(() => gamma.decodeEliasGamma()).toThrow('Read past end of BitBuffer (10 bits)')
+
+      // Delta length prefix for a 10-bit value, followed by only 4 of its 9 payload bits
+      const delta = new BitBuffer().encodeEliasGamma(10).encodeInt(0, 4)
+      delta.seek(0)
+      expect(() => delta.decodeEliasDelta()).toThrow('Read past end of BitBuffer (11 bits)')
+    })
+  })
 })
 
 describe('floatParam with string encoding', () => {
@@ -365,6 +575,100 @@ describe('pointParam', () => {
   })
 })
 
+describe('encodePolyline/decodePolyline', () => {
+  // Example from Google's polyline algorithm docs
+  const points = [{ x: 38.5, y: -120.2 }, { x: 40.7, y: -120.95 }, { x: 43.252, y: -126.453 }]
+  const encoded = '_p~iF~ps|U_ulLnnqC_mqNvxq`@'
+
+  it('matches the reference encoding', () => {
+    expect(encodePolyline(points)).toBe(encoded)
+    expect(decodePolyline(encoded)).toEqual(points)
+  })
+
+  it('supports other precisions', () => {
+    const precise = [{ x: 40.712776, y: -74.005974 }, { x: 40.712901, y: -74.006012 }]
+    expect(decodePolyline(encodePolyline(precise, 6), 6)).toEqual(precise)
+    expect(decodePolyline(encodePolyline(precise, 7), 7)).toEqual(precise)
+    expect(decodePolyline(encodePolyline(precise, 2), 2)).toEqual([{ x: 40.71, y: -74.01 }, { x: 40.71, y: -74.01 }])
+  })
+
+  it('throws on malformed input', () => {
+    expect(() => decodePolyline('_p~iF~ps|')).toThrow('Truncated polyline')
+    expect(() => decodePolyline('_p~iF~ps U')).toThrow("Invalid polyline character: ' '")
+  })
+})
+
+describe('polylineParam', () => {
+  const route = [{ x: 38.5, y: -120.2 }, { x: 40.7, y: -120.95 }, { x: 43.252, y: -126.453 }]
+
+  it('encodes points as a polyline', () => {
+    const param = polylineParam()
+    expect(param.encode(route)).toBe('_p~iF~ps|U_ulLnnqC_mqNvxq`@')
+    expect(param.decode('_p~iF~ps|U_ulLnnqC_mqNvxq`@')).toEqual(route)
+  })
+
+  it('roundtrips losslessly at the chosen precision', () => {
+    const param = polylineParam({ precision: 3 })
+    const decoded = param.decode(param.encode([{ x: 1.23456, y: -7.65432 }, { x: 1.2349, y: -7.6501 }]))
+    expect(decoded).toEqual([{ x: 1.235, y: -7.654 }, { x: 1.235, y: -7.65 }])
+    expect(param.decode(param.encode(decoded))).toEqual(decoded)
+  })
+
+  it('handles defaults and malformed values', () => {
+    const param = polylineParam({ default: route })
+    expect(param.encode(route)).toBeUndefined()
+    expect(param.decode(undefined)).toEqual(route)
+    expect(param.encode([])).toBe('')
+    expect(param.decode('')).toEqual([])
+    expect(param.decode('_p~iF~ps|')).toEqual(route)
+  })
+})
+
+describe('pointsParam', () => {
+  const square = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }]
+
+  it('packs fixed-point deltas', () => {
+    const param = pointsParam({ precision: 16 })
+    expect(param.encode(square)).toBe('dAAAgIAFAACAgAU')
+    expect(param.decode('dAAAgIAFAACAgAU')).toEqual(square)
+  })
+
+  it('roundtrips losslessly at the chosen precision', () => {
+    const param = pointsParam()
+    const route = [
+      { x: -74.006, y: 40.7128 },
+      { x: -74.005, y: 40.7135 },
+      { x: -74.0041, y: 40.7142 },
+      { x: -74.003, y: 40.715 },
+    ]
+    const encoded = param.encode(route)!
+    expect(encoded.length).toBeLessThan(polylineParam().encode(route)!.length)
+    const decoded = param.decode(encoded)
+    decoded.forEach((p, i) => {
+      expect(p.x).toBeCloseTo(route[i].x, 4)
+      expect(p.y).toBeCloseTo(route[i].y, 4)
+    })
+    expect(param.encode(decoded)).toBe(encoded)
+  })
+
+  it('supports radix alphabets', () => {
+    const param = pointsParam({ alphabet: 'base62' })
+    const encoded = param.encode(square)!
+    expect(encoded).toMatch(/^[0-9A-Za-z]+$/)
+    expect(param.decode(encoded)).toEqual(square)
+  })
+
+  it('handles defaults and malformed values', () => {
+    const param = pointsParam({ default: square })
+    expect(param.encode(square)).toBeUndefined()
+    expect(param.decode(undefined)).toEqual(square)
+    expect(param.encode([])).toBe('')
+    expect(param.decode('')).toEqual([])
+    expect(param.decode('!!')).toEqual(square)
+    expect(param.decode('A')).toEqual(square)
+  })
+})
+
 describe('encodeFloatAllModes', () => {
   it('returns string and base64 encodings', () => {
     const result = encodeFloatAllModes(3.14159, { decimals: 2, precision: 22 })
@@ -509,6 +813,100 @@ describe('precision schemes', () => {
   })
 })
 
+describe('rangeParam', () => {
+  it('encodes closed and open ranges', () => {
+    const param = intRangeParam()
+    expect(param.encode({ min: 10, max: 20 })).toBe('10-20')
+    expect(param.encode({ min: 10, max: null })).toBe('10-')
+    expect(param.encode({ min: null, max: 20 })).toBe('-20')
+    expect(param.decode('10-20')).toEqual({ min: 10, max: 20 })
+    expect(param.decode('10-')).toEqual({ min: 10, max: null })
+    expect(param.decode('-20')).toEqual({ min: null, max: 20 })
+  })
+
+  it('handles negatives unambiguously', () => {
+    const param = intRangeParam({ default: { min: 0, max: 100 } })
+    const cases = [
+      { min: -5, max: 20 },
+      { min: -10, max: -5 },
+      { min: null, max: -5 },
+      { min: -5, max: null },
+      { min: null, max: null },
+    ]
+    expect(cases.map(r => param.encode(r))).toEqual(['-5-20', '-10--5', '--5', '-5-', '-'])
+    for (const range of cases) {
+      expect(param.decode(param.encode(range))).toEqual(range)
+    }
+  })
+
+  it('omits the default', () => {
+    const param = intRangeParam({ default: { min: 0, max: 100 } })
+    expect(param.encode({ min: 0, max: 100 })).toBeUndefined()
+    expect(param.decode(undefined)).toEqual({ min: 0, max: 100 })
+    expect(intRangeParam().encode({ min: null, max: null })).toBeUndefined()
+  })
+
+  it('clamps to bounds', () => {
+    const param = intRangeParam({ bounds: { min: 0, max: 100 } })
+    expect(param.encode({ min: -5, max: 150 })).toBe('0-100')
+    expect(param.decode('-5-150')).toEqual({ min: 0, max: 100 })
+    expect(param.decode('-150')).toEqual({ min: null, max: 100 })
+  })
+
+  it('orders sides unless inverted ranges are allowed', () => {
+    expect(intRangeParam().decode('20-10')).toEqual({ min: 10, max: 20 })
+    expect(intRangeParam().encode({ min: 20, max: 10 })).toBe('10-20')
+    expect(intRangeParam({ allowInverted: true }).decode('20-10')).toEqual({ min: 20, max: 10 })
+  })
+
+  it('fills open sides from bounds when unbounded ranges are disallowed', () => {
+    const param = intRangeParam({ bounds: { min: 0, max: 100 }, allowUnbounded: false, default: { min: 0, max: 100 } })
+    expect(param.decode('10-')).toEqual({ min: 10, max: 100 })
+    expect(param.encode({ min: null, max: 50 })).toBe('0-50')
+
+    const noBounds = intRangeParam({ allowUnbounded: false, default: { min: 1, max: 2 } })
+    expect(noBounds.decode('10-')).toEqual({ min: 1, max: 2 })
+  })
+
+  it('falls back on malformed input', () => {
+    const param = intRangeParam({ default: { min: 1, max: 2 } })
+    expect(param.decode('10')).toEqual({ min: 1, max: 2 })
+    expect(param.decode('1.5-2')).toEqual({ min: 1, max: 2 })
+    expect(param.decode('a-b')).toEqual({ min: 1, max: 2 })
+    expect(param.decode('1-2-3')).toEqual({ min: 1, max: 2 })
+  })
+
+  it('rounds int ranges', () => {
+    expect(intRangeParam().encode({ min: 1.4, max: 2.6 })).toBe('1-3')
+  })
+
+  it('float string encoding', () => {
+    const param = rangeParam({ decimals: 2 })
+    expect(param.encode({ min: 1.234, max: -0.5 })).toBe('-0.50-1.23')
+    expect(param.decode('-0.5-1.25')).toEqual({ min: -0.5, max: 1.25 })
+    expect(rangeParam().encode({ min: 1e-7, max: 2 })).toBe('1e-7-2')
+    expect(rangeParam().decode('1e-7-2')).toEqual({ min: 1e-7, max: 2 })
+    expect(rangeParam().decode('-2.5--1e-7')).toEqual({ min: -2.5, max: -1e-7 })
+  })
+
+  it('float base64 encoding', () => {
+    const param = rangeParam({ encoding: 'base64', precision: 22 })
+    const range = { min: -12.5, max: 1024.25 }
+    const decoded = param.decode(param.encode(range))
+    expect(decoded.min).toBeCloseTo(range.min, 4)
+    expect(decoded.max).toBeCloseTo(range.max, 4)
+    expect(param.decode(param.encode({ min: null, max: 3.5 }))).toEqual({ min: null, max: 3.5 })
+    expect(param.decode(param.encode({ min: 3.5, max: null }))).toEqual({ min: 3.5, max: null })
+    expect(param.encode({ min: null, max: null })).toBeUndefined()
+    expect(param.decode('!')).toEqual({ min: null, max: null })
+  })
+
+  it('validates options', () => {
+    expect(() => rangeParam({ precision: 22 })).toThrow('only valid with encoding: "base64"')
+    expect(() => rangeParam({ encoding: 'base64', decimals: 2 })).toThrow('only valid with encoding: "string"')
+  })
+})
+
 describe('llzParam', () => {
   const def = { lat: 40.74, lng: -74.012, zoom: 11.8 }
   const p = llzParam({ default: def })
@@ -581,4 +979,229 @@ describe('llzParam', () => {
       })
     })
   })
+
+  describe('geohash', () => {
+    const pg = llzParam({ default: def, geohash: true })
+
+    it('picks geohash precision from zoom', () => {
+      expect(pg.encode({ lat: 40.7128, lng: -74.006, zoom: 11.8 })).toBe('dr5regw3_11.80')
+      expect(pg.encode({ lat: 40.7128, lng: -74.006, zoom: 14 })).toBe('dr5regw3p_14.00')
+      expect(pg.encode({ lat: 40.7128, lng: -74.006, zoom: 2 })).toBe('dr5r_2.00')
+    })
+
+    it('roundtrips within a pixel', () => {
+      const decoded = pg.decode('dr5regw3p_14.00')
+      expect(decoded.lat).toBeCloseTo(40.7128, 4)
+      expect(decoded.lng).toBeCloseTo(-74.006, 4)
+      expect(decoded.zoom).toBe(14)
+    })
+
+    it('supports pitch/bearing', () => {
+      const pg5 = llzParam({ default: { ...def, pitch: 0, bearing: 0 }, geohash: true })
+      expect(pg5.encode({ lat: 40.7128, lng: -74.006, zoom: 11.8, pitch: 45, bearing: 30 })).toBe('dr5regw3_11.80_45_30')
+      expect(pg5.decode('dr5regw3_11.80_45_30')).toMatchObject({ zoom: 11.8, pitch: 45, bearing: 30 })
+    })
+
+    it('handles invalid geohashes as default', () => {
+      expect(pg.decode('dr5ragw3_11.80')).toEqual(def)
+      expect(pg.decode('dr5regw3')).toEqual(def)
+    })
+  })
+})
+
+describe('geohashEncode/geohashDecode', () => {
+  it('matches reference geohashes', () => {
+    expect(geohashEncode(57.64911, 10.40744, 11)).toBe('u4pruydqqvj')
+    expect(geohashEncode(40.7128, -74.006, 7)).toBe('dr5regw')
+    expect(geohashEncode(-33.8688, 151.2093, 6)).toBe('r3gx2f')
+  })
+
+  it('decodes to cell centers', () => {
+    const { lat, lng } = geohashDecode('u4pruydqqvj')!
+    expect(lat).toBeCloseTo(57.64911, 5)
+    expect(lng).toBeCloseTo(10.40744, 5)
+    expect(geohashDecode('s')).toEqual({ lat: 22.5, lng: 22.5 })
+  })
+
+  it('rejects invalid input', () => {
+    expect(geohashDecode('')).toBeNull()
+    expect(geohashDecode('dr5a')).toBeNull()
+    expect(geohashDecode('dr5regw3pdr5r')).toBeNull()
+    expect(() => geohashEncode(0, 0, 0)).toThrow('Geohash precision must be 1-12')
+  })
+})
+
+describe('bboxParam', () => {
+  const def: BBox = [-74.05, 40.68, -73.9, 40.88]
+  const p = bboxParam({ default: def })
+
+  it('encodes west_south_east_north', () => {
+    expect(p.encode(def)).toBeUndefined()
+    expect(p.encode([-74.1, 40.6, -73.8, 40.9])).toBe('-74.1000_40.6000_-73.8000_40.9000')
+    expect(p.decode('-74.1000_40.6000_-73.8000_40.9000')).toEqual([-74.1, 40.6, -73.8, 40.9])
+    expect(p.decode(undefined)).toEqual(def)
+  })
+
+  it('supports custom decimals and delimiters', () => {
+    const p2 = bboxParam({ default: def, latLngDecimals: 2, delimiter: ',' })
+    expect(p2.encode([-74.1, 40.6, -73.8, 40.9])).toBe('-74.10,40.60,-73.80,40.90')
+    expect(p2.decode('-74.10,40.60,-73.80,40.90')).toEqual([-74.1, 40.6, -73.8, 40.9])
+  })
+
+  it('handles antimeridian crossing', () => {
+    expect(p.encode([170, -20, 190, -10])).toBe('170.0000_-20.0000_-170.0000_-10.0000')
+    expect(p.encode([170, -20, -170, -10])).toBe('170.0000_-20.0000_-170.0000_-10.0000')
+    expect(p.decode('170.0000_-20.0000_-170.0000_-10.0000')).toEqual([170, -20, -170, -10])
+    expect(p.encode([-190, 0, -170, 10])).toBe('170.0000_0.0000_-170.0000_10.0000')
+    expect(p.encode([0, 0, 180, 10])).toBe('0.0000_0.0000_180.0000_10.0000')
+    expect(p.encode([-200, -90, 200, 90])).toBe('-180.0000_-90.0000_180.0000_90.0000')
+  })
+
+  it('handles invalid input as default', () => {
+    expect(p.decode('garbage')).toEqual(def)
+    expect(p.decode('-74_40_-73')).toEqual(def)
+    expect(p.decode('-74_41_-73_40')).toEqual(def)
+    expect(p.decode('-74_40_-73_91')).toEqual(def)
+    expect(p.decode('-74_40_181_41')).toEqual(def)
+  })
+
+  describe('geohash', () => {
+    const pg = bboxParam({ default: def, geohash: true })
+
+    it('encodes corners with precision from the box size', () => {
+      expect(pg.encode([-74.1, 40.6, -73.8, 40.9])).toBe('dr5qcz40_dr788ts7')
+      expect(pg.encode([-80, 35, -70, 45])!.split('_')[0]).toHaveLength(6)
+      const [west, south, east, north] = pg.decode('dr5qcz40_dr788ts7')
+      expect(west).toBeCloseTo(-74.1, 3)
+      expect(south).toBeCloseTo(40.6, 3)
+      expect(east).toBeCloseTo(-73.8, 3)
+      expect(north).toBeCloseTo(40.9, 3)
+    })
+
+    it('handles antimeridian crossing', () => {
+      const [west, , east] = pg.decode(pg.encode([170, -20, 190, -10]))
+      expect(west).toBeCloseTo(170, 1)
+      expect(east).toBeCloseTo(-170, 1)
+    })
+
+    it('re-encodes decoded boxes identically', () => {
+      expect(pg.decode(pg.encode([-180, -90, 180, 90]))).toEqual([-180, -90, 180, 90])
+      const boxes: BBox[] = [
+        [-180, -90, 180, 90],
+        [-80, 35, -70, 45],
+        [-74.1, 40.6, -73.8, 40.9],
+        [-74.0061, 40.7127, -74.0059, 40.7129],
+        [-74.006, 40.7128, -74.006, 40.7128],
+        [170, -20, 190, -10],
+        [2.2, 48.8, 2.5, 48.95],
+      ]
+      const lengths = new Set<number>()
+      for (const box of boxes) {
+        const encoded = pg.encode(box)!
+        lengths.add(encoded.indexOf('_'))
+        const decoded = pg.decode(encoded)
+        expect(pg.encode(decoded)).toBe(encoded)
+        // Decoded box contains the original
+        expect(decoded[1]).toBeLessThanOrEqual(box[1])
+        expect(decoded[3]).toBeGreaterThanOrEqual(box[3])
+      }
+      expect(lengths.size).toBeGreaterThanOrEqual(4)
+    })
+
+    it('handles invalid input as default', () => {
+      expect(pg.decode('dr5qcz40')).toEqual(def)
+      expect(pg.decode('dr5qcz40_dr7a')).toEqual(def)
+      expect(pg.decode('dr788ts7_dr5qcz40')).toEqual(def)
+    })
+  })
+})
+
+describe('geoCircleParam', () => {
+  const def = { lat: 40.7128, lng: -74.006, radius: 1000 }
+  const p = geoCircleParam({ default: def })
+
+  it('encodes lat_lng_radius', () => {
+    expect(p.encode(def)).toBeUndefined()
+    expect(p.encode({ lat: 40.73, lng: -73.99, radius: 500 })).toBe('40.7300_-73.9900_500')
+    expect(p.decode('40.7300_-73.9900_500')).toEqual({ lat: 40.73, lng: -73.99, radius: 500 })
+    expect(p.decode(undefined)).toEqual(def)
+  })
+
+  it('supports custom decimals', () => {
+    const p2 = geoCircleParam({ default: def, latLngDecimals: 2, radiusDecimals: 1 })
+    expect(p2.encode({ lat: 40.73, lng: -73.99, radius: 500.25 })).toBe('40.73_-73.99_500.3')
+  })
+
+  it('wraps longitudes across the antimeridian', () => {
+    expect(p.encode({ lat: 0, lng: 190, radius: 100 })).toBe('0.0000_-170.0000_100')
+  })
+
+  it('handles invalid input as default', () => {
+    expect(p.decode('40.73_-73.99')).toEqual(def)
+    expect(p.decode('40.73_-73.99_-5')).toEqual(def)
+    expect(p.decode('91_-73.99_5')).toEqual(def)
+  })
+
+  describe('geohash', () => {
+    const pg = geoCircleParam({ default: def, geohash: true })
+
+    it('picks geohash precision from the radius', () => {
+      expect(pg.encode({ lat: 40.73, lng: -73.99, radius: 500 })).toBe('dr5rsqdjk_500')
+      expect(pg.encode({ lat: 40.73, lng: -73.99, radius: 50000 })).toBe('dr5rsqd_50000')
+      const { lat, lng, radius } = pg.decode('dr5rsqdjk_500')
+      expect(lat).toBeCloseTo(40.73, 4)
+      expect(lng).toBeCloseTo(-73.99, 4)
+      expect(radius).toBe(500)
+    })
+
+    it('handles invalid input as default', () => {
+      expect(pg.decode('dr5rsqdjk')).toEqual(def)
+      expect(pg.decode('dr5rsqdjk_x')).toEqual(def)
+    })
+  })
+})
+
+describe('llzToBBox/bboxToLLZ', () => {
+  const viewport = { width: 1024, height: 768 }
+
+  it('converts a view to the visible bbox and back', () => {
+    const llz = { lat: 40.74, lng: -74.012, zoom: 11.8 }
+    const bbox = llzToBBox(llz, viewport)
+    const [west, south, east, north] = bbox
+    expect(west).toBeCloseTo(-74.113, 3)
+    expect(east).toBeCloseTo(-73.911, 3)
+    expect(south).toBeLessThan(40.74)
+    expect(north).toBeGreaterThan(40.74)
+    const back = bboxToLLZ(bbox, viewport)
+    expect(back.lat).toBeCloseTo(llz.lat, 6)
+    expect(back.lng).toBeCloseTo(llz.lng, 6)
+    expect(back.zoom).toBeCloseTo(llz.zoom, 6)
+  })
+
+  it('supports 256px tiles', () => {
+    const llz = { lat: 0, lng: 0, zoom: 3 }
+    const [west512] = llzToBBox(llz, viewport)
+    const [west256] = llzToBBox(llz, viewport, 256)
+    expect(west256).toBeCloseTo(2 * west512, 6)
+    expect(bboxToLLZ(llzToBBox(llz, viewport, 256), viewport, 256).zoom).toBeCloseTo(3, 6)
+  })
+
+  it('handles antimeridian crossing', () => {
+    const bbox = llzToBBox({ lat: 0, lng: 179, zoom: 3 }, viewport)
+    expect(bbox[0]).toBeCloseTo(134, 6)
+    expect(bbox[2]).toBeCloseTo(-136, 6)
+    const back = bboxToLLZ(bbox, viewport)
+    expect(back.lng).toBeCloseTo(179, 6)
+    expect(back.zoom).toBeCloseTo(3, 6)
+  })
+
+  it('clamps views wider than the world', () => {
+    expect(llzToBBox({ lat: 0, lng: 0, zoom: 0 }, viewport)).toEqual([-180, -85.05112877980659, 180, 85.05112877980659])
+  })
+
+  it('fits the limiting dimension', () => {
+    // Wide bbox in a tall viewport: width limits the zoom
+    const { zoom } = bboxToLLZ([-10, -1, 10, 1], { width: 512, height: 2048 })
+    expect(zoom).toBeCloseTo(Math.log2(360 / 20), 6)
+  })
 })
@@ -5,7 +5,8 @@
  * for encoding floats with configurable precision.
  */
 
-import { base64Encode, base64Decode, floatToBytes, bytesToFloat, type Base64Options, type Alphabet, resolveAlphabet, createLookupMap } from './binary.js'
+import { encodeBytes, decodeBytes, floatToBytes, bytesToFloat, type Base64Options, type Alphabet, resolveAlphabet, createLookupMap } from './binary.js'
+import { encodeRadix, decodeRadix, isBase64Alphabet, type RadixAlphabet } from './radix.js'
 
 /**
  * Decomposed IEEE 754 double-precision float
@@ -140,6 +141,33 @@ export function fromFixedPoint(f: FixedPoint, mantBits: number): Float {
   return { neg, exp, mant }
 }
 
+/**
+ * Convert a safe integer (optionally with a lower bound) to bigint for variable-length coding
+ */
+function toSafeBigInt(n: number, name: string, min?: number): bigint {
+  if (!Number.isSafeInteger(n) || (min !== undefined && n < min)) {
+    const kind = min === undefined ? 'a safe integer' : min === 0 ? 'a non-negative safe integer' : 'a positive safe integer'
+    throw new Error(`${name} requires ${kind}, got ${n}`)
+  }
+  return BigInt(n)
+}
+
+/**
+ * Convert a decoded bigint to number, rejecting values that would lose precision
+ */
+function toSafeNumber(n: bigint): number {
+  if (n > BigInt(Number.MAX_SAFE_INTEGER) || n < BigInt(Number.MIN_SAFE_INTEGER)) {
+    throw new Error(`Decoded value ${n} exceeds Number.MAX_SAFE_INTEGER (use the bigint variant)`)
+  }
+  return Number(n)
+}
+
+function checkChunkBits(chunkBits: number): void {
+  if (!Number.isInteger(chunkBits) || chunkBits < 1) {
+    throw new Error(`chunkBits must be a positive integer, got ${chunkBits}`)
+  }
+}
+
 /**
  * Bit-level buffer for packing/unpacking arbitrary bit widths
  *
@@ -153,6 +181,7 @@ export function fromFixedPoint(f: FixedPoint, mantBits: number): Float {
  * buf.encodeInt(myEnum, 3)      // 3 bits for enum
  * buf.encodeInt(myCount, 8)     // 8 bits for count
  * buf.encodeBigInt(myId, 48)    // 48 bits for ID
+ * buf.encodeVarUint(myLength)   // 8+ bits, growing with the value
  * const urlParam = buf.toBase64()
  *
  * // Decoding
@@ -160,6 +189,7 @@ export function fromFixedPoint(f: FixedPoint, mantBits: number): Float {
  * const myEnum = buf.decodeInt(3)
  * const myCount = buf.decodeInt(8)
  * const myId = buf.decodeBigInt(48)
+ * const myLength = buf.decodeVarUint()
  * ```
  */
 export class BitBuffer {
@@ -303,6 +333,180 @@ export class BitBuffer {
     return n
   }
 
+  /**
+   * Read one bit, throwing at the end of the buffer (so unary prefixes can't loop forever)
+   */
+  private decodeBit(): number {
+    if (this.totalBitOffset >= this.end) {
+      throw new Error(`Read past end of BitBuffer (${this.end} bits)`)
+    }
+    return this.decodeInt(1)
+  }
+
+  /**
+   * Like `decodeBigInt`, but throws instead of reading zeros past the end
+   */
+  private decodeBigIntStrict(numBits: number): bigint {
+    if (this.totalBitOffset + numBits > this.end) {
+      throw new Error(`Read past end of BitBuffer (${this.end} bits)`)
+    }
+    return this.decodeBigInt(numBits)
+  }
+
+  /**
+   * Encode an unsigned bigint as a LEB128-style varint: `chunkBits`-bit groups, least
+   * significant first, each preceded by a continuation bit. With the default 7-bit chunks
+   * on a byte boundary, this writes standard LEB128 bytes.
+   */
+  encodeBigVarUint(n: bigint, chunkBits = 7): BitBuffer {
+    checkChunkBits(chunkBits)
+    if (n < 0n) throw new Error(`Varuint must be non-negative, got ${n}`)
+    const chunkMask = (1n << BigInt(chunkBits)) - 1n
+    do {
+      const chunk = n & chunkMask
+      n >>= BigInt(chunkBits)
+      this.encodeInt(n > 0n ? 1 : 0, 1)
+      this.encodeBigInt(chunk, chunkBits)
+    } while (n > 0n)
+    return this
+  }
+
+  /**
+   * Decode a LEB128-style varint written by `encodeBigVarUint`
+   */
+  decodeBigVarUint(chunkBits = 7): bigint {
+    checkChunkBits(chunkBits)
+    let n = 0n
+    let shift = 0n
+    let more: number
+    do {
+      more = this.decodeBit()
+      n |= this.decodeBigIntStrict(chunkBits) << shift
+      shift += BigInt(chunkBits)
+    } while (more)
+    return n
+  }
+
+  /**
+   * Encode a non-negative integer as a LEB128-style varint (see `encodeBigVarUint`)
+   *
+   * @example
+   * ```ts
+   * buf.encodeVarUint(3)       // 8 bits
+   * buf.encodeVarUint(50_000)  // 24 bits
+   * buf.encodeVarUint(3, 3)    // 4 bits: smaller chunks suit mostly-small values
+   * ```
+   */
+  encodeVarUint(n: number, chunkBits = 7): BitBuffer {
+    return this.encodeBigVarUint(toSafeBigInt(n, 'Varuint', 0), chunkBits)
+  }
+
+  /**
+   * Decode a varint written by `encodeVarUint`
+   */
+  decodeVarUint(chunkBits = 7): number {
+    return toSafeNumber(this.decodeBigVarUint(chunkBits))
+  }
+
+  /**
+   * Encode a signed bigint as a zigzag varint (0, -1, 1, -2, … → 0, 1, 2, 3, …),
+   * so small negative values stay short
+   */
+  encodeBigVarInt(n: bigint, chunkBits = 7): BitBuffer {
+    return this.encodeBigVarUint(n < 0n ? -2n * n - 1n : 2n * n, chunkBits)
+  }
+
+  /**
+   * Decode a zigzag varint written by `encodeBigVarInt`
+   */
+  decodeBigVarInt(chunkBits = 7): bigint {
+    const z = this.decodeBigVarUint(chunkBits)
+    return z & 1n ? -(z + 1n) / 2n : z / 2n
+  }
+
+  /**
+   * Encode a signed integer as a zigzag varint (see `encodeBigVarInt`)
+   */
+  encodeVarInt(n: number, chunkBits = 7): BitBuffer {
+    return this.encodeBigVarInt(toSafeBigInt(n, 'Varint'), chunkBits)
+  }
+
+  /**
+   * Decode a zigzag varint written by `encodeVarInt`
+   */
+  decodeVarInt(chunkBits = 7): number {
+    return toSafeNumber(this.decodeBigVarInt(chunkBits))
+  }
+
+  /**
+   * Encode a positive bigint with Elias gamma coding: ⌊log2 n⌋ zeros, then n in binary.
+   * Takes 2⌊log2 n⌋ + 1 bits (1 bit for n = 1); encode `n + 1` for values that may be 0.
+   */
+  encodeBigEliasGamma(n: bigint): BitBuffer {
+    if (n < 1n) throw new Error(`Elias gamma requires a positive integer, got ${n}`)
+    const numBits = n.toString(2).length
+    this.encodeBigInt(0n, numBits - 1)
+    this.encodeBigInt(n, numBits)
+    return this
+  }
+
+  /**
+   * Decode an Elias gamma code written by `encodeBigEliasGamma`
+   */
+  decodeBigEliasGamma(): bigint {
+    let zeros = 0
+    while (this.decodeBit() === 0) zeros++
+    return (1n << BigInt(zeros)) | this.decodeBigIntStrict(zeros)
+  }
+
+  /**
+   * Encode a positive integer with Elias gamma coding (see `encodeBigEliasGamma`)
+   */
+  encodeEliasGamma(n: number): BitBuffer {
+    return this.encodeBigEliasGamma(toSafeBigInt(n, 'Elias gamma', 1))
+  }
+
+  /**
+   * Decode an Elias gamma code written by `encodeEliasGamma`
+   */
+  decodeEliasGamma(): number {
+    return toSafeNumber(this.decodeBigEliasGamma())
+  }
+
+  /**
+   * Encode a positive bigint with Elias delta coding: the bit length of n in Elias gamma,
+   * then n's bits after the leading 1. Shorter than gamma for values above ~32.
+   */
+  encodeBigEliasDelta(n: bigint): BitBuffer {
+    if (n < 1n) throw new Error(`Elias delta requires a positive integer, got ${n}`)
+    const numBits = n.toString(2).length
+    this.encodeBigEliasGamma(BigInt(numBits))
+    this.encodeBigInt(n, numBits - 1)
+    return this
+  }
+
+  /**
+   * Decode an Elias delta code written by `encodeBigEliasDelta`
+   */
+  decodeBigEliasDelta(): bigint {
+    const numBits = toSafeNumber(this.decodeBigEliasGamma())
+    return (1n << BigInt(numBits - 1)) | this.decodeBigIntStrict(numBits - 1)
+  }
+
+  /**
+   * Encode a positive integer with Elias delta coding (see `encodeBigEliasDelta`)
+   */
+  encodeEliasDelta(n: number): BitBuffer {
+    return this.encodeBigEliasDelta(toSafeBigInt(n, 'Elias delta', 1))
+  }
+
+  /**
+   * Decode an Elias delta code written by `encodeEliasDelta`
+   */
+  decodeEliasDelta(): number {
+    return toSafeNumber(this.decodeBigEliasDelta())
+  }
+
   /**
    * Encode an array of floats with shared exponent
    */
@@ -312,13 +516,7 @@ export class BitBuffer {
   ): BitBuffer {
     const floats = vals.map(toFloat)
     const maxExp = Math.max(...floats.map(({ exp }) => exp + 1))
-
-    if (maxExp >= 1 << (expBits - 1)) {
-      throw Error(`maxExp ${maxExp} >= ${1 << expBits}`)
-    }
-
-    const expToWrite = (maxExp + (1 << (expBits - 1))) & ((1 << expBits) - 1)
-    this.encodeInt(expToWrite, expBits)
+    this.encodeSharedExp(maxExp, expBits)
 
     const fixedPoints = floats.map((f) => toFixedPoint(f, { mantBits, exp: maxExp }))
     fixedPoints.forEach(({ neg, mant }) => {
@@ -336,8 +534,7 @@ export class BitBuffer {
     count: number,
     { expBits, mantBits }: PrecisionScheme
   ): number[] {
-    const expRaw = this.decodeInt(expBits)
-    const exp = expRaw - (1 << (expBits - 1))
+    const exp = this.decodeSharedExp(expBits)
 
     const result: number[] = []
     for (let i = 0; i < count; i++) {
@@ -351,6 +548,64 @@ export class BitBuffer {
     return result
   }
 
+  /**
+   * Encode an array of floats as fixed-point integers with shared exponent, each written as a
+   * zigzag varint delta from the value `stride` positions earlier (the first `stride` values
+   * from 0). Use `stride: 2` for interleaved x/y coordinates.
+   *
+   * More compact than `encodeFixedPoints` for sequences of nearby values (routes,
+   * outlines), and lossless at the chosen precision: decoded values re-encode identically.
+   */
+  encodeFixedPointDeltas(
+    vals: number[],
+    { expBits, mantBits }: PrecisionScheme,
+    { stride = 1, chunkBits = 7 }: { stride?: number; chunkBits?: number } = {}
+  ): BitBuffer {
+    const minExp = -(1 << (expBits - 1))
+    let exp = Math.max(minExp, ...vals.map((v) => toFloat(v).exp + 1))
+    // Rounding can carry the largest value into the next power of 2
+    let ints = vals.map((v) => Math.round(v * 2 ** (mantBits - exp)))
+    if (ints.some((n) => Math.abs(n) >= 2 ** mantBits)) {
+      exp++
+      ints = vals.map((v) => Math.round(v * 2 ** (mantBits - exp)))
+    }
+    this.encodeSharedExp(exp, expBits)
+    ints.forEach((n, i) => {
+      this.encodeVarInt(n - (i < stride ? 0 : ints[i - stride]), chunkBits)
+    })
+    return this
+  }
+
+  /**
+   * Decode an array of floats written by `encodeFixedPointDeltas`
+   */
+  decodeFixedPointDeltas(
+    count: number,
+    { expBits, mantBits }: PrecisionScheme,
+    { stride = 1, chunkBits = 7 }: { stride?: number; chunkBits?: number } = {}
+  ): number[] {
+    const exp = this.decodeSharedExp(expBits)
+    const ints: number[] = []
+    for (let i = 0; i < count; i++) {
+      ints.push(this.decodeVarInt(chunkBits) + (i < stride ? 0 : ints[i - stride]))
+    }
+    return ints.map((n) => n / 2 ** (mantBits - exp))
+  }
+
+  /**
+   * Write the exponent shared by a list of fixed-point values (biased, `expBits` wide)
+   */
+  private encodeSharedExp(exp: number, expBits: number): void {
+    if (exp >= 1 << (expBits - 1)) {
+      throw Error(`maxExp ${exp} >= ${1 << expBits}`)
+    }
+    this.encodeInt((exp + (1 << (expBits - 1))) & ((1 << expBits) - 1), expBits)
+  }
+
+  private decodeSharedExp(expBits: number): number {
+    return this.decodeInt(expBits) - (1 << (expBits - 1))
+  }
+
   /**
    * Get bytes as Uint8Array
    */
@@ -421,9 +676,59 @@ export class BitBuffer {
     buf.seek(0)
     return buf
   }
+
+  /**
+   * Convert buffer to a radix-N string (alphabet of 2–90 characters)
+   *
+   * Converts all bits at once via bigint base conversion, so e.g. the 79-char `hash` preset
+   * packs ~6.3 bits per character. With a 64-char alphabet the output matches `toBase64`.
+   *
+   * @param alphabet - Radix preset name (`'hash'`, `'query'`, `'base62'`) or alphabet string
+   */
+  toRadix(alphabet: Alphabet | RadixAlphabet): string {
+    const numBits = this.end
+    this.seek(0)
+    return encodeRadix(this.decodeBigInt(numBits), numBits, alphabet)
+  }
+
+  /**
+   * Create a BitBuffer from a radix-N string
+   *
+   * @param str - The string to decode
+   * @param alphabet - Radix preset name or alphabet string
+   */
+  static fromRadix(str: string, alphabet: Alphabet | RadixAlphabet): BitBuffer {
+    const { value, numBits } = decodeRadix(str, alphabet)
+    const buf = new BitBuffer()
+    buf.encodeBigInt(value, numBits)
+    buf.seek(0)
+    return buf
+  }
+}
+
+/**
+ * Encode a buffer with the `alphabet` option of a param: base64 for base64 presets and
+ * 64-char strings (the default), radix-N otherwise
+ */
+export function encodeBuffer(buf: BitBuffer, alphabet?: Alphabet | RadixAlphabet): string {
+  if (alphabet === undefined || isBase64Alphabet(alphabet)) {
+    return buf.toBase64(alphabet ? { alphabet } : undefined)
+  }
+  return buf.toRadix(alphabet)
+}
+
+/**
+ * Decode a string produced by `encodeBuffer` with the same alphabet
+ */
+export function decodeBuffer(str: string, alphabet?: Alphabet | RadixAlphabet): BitBuffer {
+  if (alphabet === undefined || isBase64Alphabet(alphabet)) {
+    return BitBuffer.fromBase64(str, alphabet ? { alphabet } : undefined)
+  }
+  return BitBuffer.fromRadix(str, alphabet)
 }
 
 import type { Param } from './index.js'
+import { withDefault } from './combinators.js'
 
 /**
  * Encoding mode for float params
@@ -457,8 +762,8 @@ export interface FloatParamOptions {
   mant?: number
   /** For lossy base64: string shorthand like '5+22' (exp+mant) */
   precision?: string
-  /** For base64: alphabet preset or 64-char string */
-  alphabet?: Alphabet
+  /** For base64: alphabet preset or 64-char string, or a radix preset / 2–90-char string for radix-N */
+  alphabet?: Alphabet | RadixAlphabet
 }
 
 /**
@@ -484,12 +789,37 @@ export interface FloatParamOptions {
  */
 export function floatParam(optsOrDefault: number | FloatParamOptions = 0): Param<number> {
   // Handle simple number default
-  const opts: FloatParamOptions = typeof optsOrDefault === 'number'
+  const { default: defaultValue = 0, ...opts }: FloatParamOptions = typeof optsOrDefault === 'number'
     ? { default: optsOrDefault }
     : optsOrDefault
 
+  // Same encodings as optFloatParam; absent or invalid → default, default → omitted
+  return withDefault(optFloatParam(opts), defaultValue)
+}
+
+/**
+ * Create an optional float param with configurable encoding
+ *
+ * Like `floatParam` but absent → `null` instead of a default number.
+ * `null` encodes as absent (removed from URL); any number (including 0) encodes normally.
+ *
+ * @example
+ * ```ts
+ * // Lossless base64 (default)
+ * const f = optFloatParam()
+ *
+ * // Lossy base64
+ * const f = optFloatParam({ encoding: 'base64', exp: 5, mant: 22 })
+ *
+ * // String encoding with fixed decimals
+ * const f = optFloatParam({ encoding: 'string', decimals: 2 })
+ *
+ * // Full precision string
+ * const f = optFloatParam({ encoding: 'string' })
+ * ```
+ */
+export function optFloatParam(opts: Omit<FloatParamOptions, 'default'> = {}): Param<number | null> {
   const {
-    default: defaultValue = 0,
     encoding = 'base64',
     decimals,
     exp,
@@ -510,7 +840,6 @@ export function floatParam(optsOrDefault: number | FloatParamOptions = 0): Param
       throw new Error('decimals option is only valid with encoding: "string"')
     }
 
-    // Check for lossy vs lossless
     const hasExpMant = exp !== undefined || mant !== undefined
     const hasPrecision = precision !== undefined
 
@@ -522,45 +851,40 @@ export function floatParam(optsOrDefault: number | FloatParamOptions = 0): Param
       if (exp === undefined || mant === undefined) {
         throw new Error('Both exp and mant must be specified together')
       }
-      // Lossy base64 with explicit exp/mant
-      return createLossyBase64Param(defaultValue, { expBits: exp, mantBits: mant }, alphabet)
+      return createOptLossyBase64Param({ expBits: exp, mantBits: mant }, alphabet)
     }
 
     if (hasPrecision) {
-      // Lossy base64 with string precision
       const { exp: e, mant: m } = parsePrecisionString(precision)
-      return createLossyBase64Param(defaultValue, { expBits: e, mantBits: m }, alphabet)
+      return createOptLossyBase64Param({ expBits: e, mantBits: m }, alphabet)
     }
 
-    // Lossless base64 (default)
-    return createLosslessBase64Param(defaultValue, alphabet)
+    return createOptLosslessBase64Param(alphabet)
   }
 
   // String encoding
   if (decimals !== undefined) {
-    return createTruncatedStringParam(defaultValue, decimals)
+    return createOptTruncatedStringParam(decimals)
   }
 
-  // Full precision string
-  return createFullStringParam(defaultValue)
+  return createOptFullStringParam()
 }
 
 /**
  * Lossless base64 encoding (full 64-bit IEEE 754)
  */
-function createLosslessBase64Param(defaultValue: number, alphabet?: Alphabet): Param<number> {
-  const opts = alphabet ? { alphabet } : undefined
+function createOptLosslessBase64Param(alphabet?: Alphabet | RadixAlphabet): Param<number | null> {
   return {
     encode: (value) => {
-      if (value === defaultValue) return undefined
-      return base64Encode(floatToBytes(value), opts)
+      if (value === null) return undefined
+      return encodeBytes(floatToBytes(value), alphabet)
     },
     decode: (encoded) => {
-      if (encoded === undefined || encoded === '') return defaultValue
+      if (encoded === undefined || encoded === '') return null
       try {
-        return bytesToFloat(base64Decode(encoded, opts))
+        return bytesToFloat(decodeBytes(encoded, alphabet))
       } catch {
-        return defaultValue
+        return null
       }
     },
   }
@@ -569,23 +893,22 @@ function createLosslessBase64Param(defaultValue: number, alphabet?: Alphabet): P
 /**
  * Lossy base64 encoding (fixed-point with shared exponent)
  */
-function createLossyBase64Param(defaultValue: number, scheme: PrecisionScheme, alphabet?: Alphabet): Param<number> {
-  const opts = alphabet ? { alphabet } : undefined
+function createOptLossyBase64Param(scheme: PrecisionScheme, alphabet?: Alphabet | RadixAlphabet): Param<number | null> {
   return {
     encode: (value) => {
-      if (value === defaultValue) return undefined
+      if (value === null) return undefined
       const buf = new BitBuffer()
       buf.encodeFixedPoints([value], scheme)
-      return buf.toBase64(opts)
+      return encodeBuffer(buf, alphabet)
     },
     decode: (encoded) => {
-      if (encoded === undefined || encoded === '') return defaultValue
+      if (encoded === undefined || encoded === '') return null
       try {
-        const buf = BitBuffer.fromBase64(encoded, opts)
+        const buf = decodeBuffer(encoded, alphabet)
         const [value] = buf.decodeFixedPoints(1, scheme)
         return value
       } catch {
-        return defaultValue
+        return null
       }
     },
   }
@@ -594,16 +917,16 @@ function createLossyBase64Param(defaultValue: number, scheme: PrecisionScheme, a
 /**
  * Full precision string encoding (naive toString)
  */
-function createFullStringParam(defaultValue: number): Param<number> {
+function createOptFullStringParam(): Param<number | null> {
   return {
     encode: (value) => {
-      if (value === defaultValue) return undefined
+      if (value === null) return undefined
       return value.toString()
     },
     decode: (encoded) => {
-      if (encoded === undefined || encoded === '') return defaultValue
+      if (encoded === undefined || encoded === '') return null
       const parsed = parseFloat(encoded)
-      return isNaN(parsed) ? defaultValue : parsed
+      return isNaN(parsed) ? null : parsed
     },
   }
 }
@@ -611,293 +934,509 @@ function createFullStringParam(defaultValue: number): Param<number> {
 /**
  * Truncated string encoding (fixed decimal places)
  */
-function createTruncatedStringParam(defaultValue: number, decimals: number): Param<number> {
+function createOptTruncatedStringParam(decimals: number): Param<number | null> {
   const multiplier = Math.pow(10, decimals)
-
   return {
     encode: (value) => {
-      if (value === defaultValue) return undefined
+      if (value === null) return undefined
       const truncated = Math.round(value * multiplier) / multiplier
       return truncated.toFixed(decimals)
     },
     decode: (encoded) => {
-      if (encoded === undefined || encoded === '') return defaultValue
+      if (encoded === undefined || encoded === '') return null
       const parsed = parseFloat(encoded)
-      return isNaN(parsed) ? defaultValue : parsed
+      return isNaN(parsed) ? null : parsed
     },
   }
 }
 
 /**
- * Create an optional float param with configurable encoding
- *
- * Like `floatParam` but absent → `null` instead of a default number.
- * `null` encodes as absent (removed from URL); any number (including 0) encodes normally.
+ * Convenience wrapper for base64 float encoding
  *
  * @example
  * ```ts
- * // Lossless base64 (default)
- * const f = optFloatParam()
+ * base64FloatParam(0)                    // lossless
+ * base64FloatParam({ exp: 5, mant: 22 }) // lossy
+ * ```
+ */
+export function base64FloatParam(optsOrDefault: number | Omit<FloatParamOptions, 'encoding' | 'decimals'> = 0): Param<number> {
+  const opts = typeof optsOrDefault === 'number'
+    ? { default: optsOrDefault }
+    : optsOrDefault
+  return floatParam({ ...opts, encoding: 'base64' })
+}
+
+/**
+ * 2D point type
+ */
+export interface Point {
+  x: number
+  y: number
+}
+
+/**
+ * Options for point param
+ */
+export interface PointParamOptions {
+  /** Encoding mode */
+  encoding?: FloatEncoding
+  /** For string encoding: decimal places */
+  decimals?: number
+  /** For binary encoding: mantissa bits (8-52) or custom scheme. Default: 22 bits */
+  precision?: number | PrecisionScheme
+  /** Default point when param is missing */
+  default?: Point
+  /** For base64: alphabet preset or 64-char string, or a radix preset / 2–90-char string for radix-N */
+  alphabet?: Alphabet | RadixAlphabet
+}
+
+/**
+ * Create a param for encoding a 2D point
  *
- * // Lossy base64
- * const f = optFloatParam({ encoding: 'base64', exp: 5, mant: 22 })
+ * String mode: "x,y" with truncated decimals
+ * Binary mode: packed fixed-point with shared exponent
  *
- * // String encoding with fixed decimals
- * const f = optFloatParam({ encoding: 'string', decimals: 2 })
+ * @example
+ * ```ts
+ * // String encoding
+ * const posParam = pointParam({ encoding: 'string', decimals: 2 })
+ * posParam.encode({ x: 1.234, y: 5.678 }) // "1.23 5.68"
  *
- * // Full precision string
- * const f = optFloatParam({ encoding: 'string' })
+ * // Binary encoding (more compact)
+ * const posParam = pointParam({ encoding: 'base64', precision: 22 })
+ * posParam.encode({ x: 1.234, y: 5.678 }) // compact base64
  * ```
  */
-export function optFloatParam(opts: Omit<FloatParamOptions, 'default'> = {}): Param<number | null> {
+export function pointParam(opts: PointParamOptions = {}): Param<Point | null> {
   const {
     encoding = 'base64',
-    decimals,
-    exp,
-    mant,
+    decimals = 2,
     precision,
+    default: defaultPoint = null,
     alphabet,
   } = opts
 
-  // Validate options (same as floatParam)
-  if (encoding === 'string') {
-    if (exp !== undefined || mant !== undefined || precision !== undefined) {
-      throw new Error('exp/mant/precision options are only valid with encoding: "base64"')
-    }
-  }
-
-  if (encoding === 'base64') {
-    if (decimals !== undefined) {
-      throw new Error('decimals option is only valid with encoding: "string"')
-    }
+  const scheme = resolvePrecision(precision)
+  const multiplier = Math.pow(10, decimals)
 
-    const hasExpMant = exp !== undefined || mant !== undefined
-    const hasPrecision = precision !== undefined
+  return {
+    encode: (point) => {
+      if (point === null) return undefined
+      if (defaultPoint && point.x === defaultPoint.x && point.y === defaultPoint.y) {
+        return undefined
+      }
 
-    if (hasExpMant && hasPrecision) {
-      throw new Error('Cannot specify both exp/mant and precision')
-    }
+      if (encoding === 'string') {
+        // String encoding: "x y" or "x-y" (space encodes as + in URLs)
+        // When y is negative, omit space - the minus sign acts as delimiter
+        const xTrunc = Math.round(point.x * multiplier) / multiplier
+        const yTrunc = Math.round(point.y * multiplier) / multiplier
+        // Always show full precision for consistent output length
+        const xStr = xTrunc.toFixed(decimals)
+        const yStr = yTrunc.toFixed(decimals)
+        // Only need space delimiter if y is non-negative
+        const delimiter = yTrunc >= 0 ? ' ' : ''
+        return `${xStr}${delimiter}${yStr}`
+      } else {
+        // Binary encoding with shared exponent
+        const buf = new BitBuffer()
+        buf.encodeFixedPoints([point.x, point.y], scheme)
+        return encodeBuffer(buf, alphabet)
+      }
+    },
+    decode: (encoded) => {
+      if (encoded === undefined || encoded === '') return defaultPoint
 
-    if (hasExpMant) {
-      if (exp === undefined || mant === undefined) {
-        throw new Error('Both exp and mant must be specified together')
+      try {
+        if (encoding === 'string') {
+          // Split on space (URL decoding converts + back to space)
+          // If no space, look for minus sign (not at start) as delimiter
+          let x: number, y: number
+          if (encoded.includes(' ')) {
+            const parts = encoded.split(' ')
+            if (parts.length !== 2) return defaultPoint
+            x = parseFloat(parts[0])
+            y = parseFloat(parts[1])
+          } else {
+            // Find the minus sign that delimits y (skip any leading minus for x)
+            const minusIdx = encoded.indexOf('-', encoded[0] === '-' ? 1 : 0)
+            if (minusIdx === -1) return defaultPoint
+            x = parseFloat(encoded.slice(0, minusIdx))
+            y = parseFloat(encoded.slice(minusIdx))
+          }
+          if (isNaN(x) || isNaN(y)) return defaultPoint
+          return { x, y }
+        } else {
+          const buf = decodeBuffer(encoded, alphabet)
+          const [x, y] = buf.decodeFixedPoints(2, scheme)
+          return { x, y }
+        }
+      } catch {
+        return defaultPoint
       }
-      return createOptLossyBase64Param({ expBits: exp, mantBits: mant }, alphabet)
-    }
+    },
+  }
+}
 
-    if (hasPrecision) {
-      const { exp: e, mant: m } = parsePrecisionString(precision)
-      return createOptLossyBase64Param({ expBits: e, mantBits: m }, alphabet)
+/**
+ * Encode points in Google's encoded polyline format: coordinates rounded to `precision`
+ * decimals, delta-encoded and written as 5-bit chunks in ASCII 63–126.
+ *
+ * Each point's `x` is written first, so `{ x: lat, y: lng }` matches polylines from Google's
+ * APIs (precision 5; OSRM and Valhalla use 6).
+ */
+export function encodePolyline(points: Point[], precision = 5): string {
+  const factor = 10 ** precision
+  let result = ''
+  let prevX = 0
+  let prevY = 0
+  const write = (delta: number) => {
+    let z = delta < 0 ? -2 * delta - 1 : 2 * delta
+    while (z >= 0x20) {
+      result += String.fromCharCode(0x20 + (z % 0x20) + 63)
+      z = Math.floor(z / 0x20)
     }
-
-    return createOptLosslessBase64Param(alphabet)
+    result += String.fromCharCode(z + 63)
+  }
+  for (const { x, y } of points) {
+    const ix = Math.round(x * factor)
+    const iy = Math.round(y * factor)
+    write(ix - prevX)
+    write(iy - prevY)
+    prevX = ix
+    prevY = iy
   }
+  return result
+}
 
-  // String encoding
-  if (decimals !== undefined) {
-    return createOptTruncatedStringParam(decimals)
+/**
+ * Decode a Google encoded polyline (see `encodePolyline`)
+ * @throws Error on characters outside ASCII 63–126, or a truncated polyline
+ */
+export function decodePolyline(str: string, precision = 5): Point[] {
+  const factor = 10 ** precision
+  let i = 0
+  const read = (): number => {
+    let z = 0
+    let scale = 1
+    let chunk: number
+    do {
+      if (i >= str.length) throw new Error('Truncated polyline')
+      chunk = str.charCodeAt(i++) - 63
+      if (chunk < 0 || chunk > 63) throw new Error(`Invalid polyline character: '${str[i - 1]}'`)
+      z += (chunk % 0x20) * scale
+      scale *= 0x20
+    } while (chunk >= 0x20)
+    return z % 2 ? -(z + 1) / 2 : z / 2
+  }
+  const points: Point[] = []
+  let x = 0
+  let y = 0
+  while (i < str.length) {
+    x += read()
+    y += read()
+    points.push({ x: x / factor, y: y / factor })
   }
+  return points
+}
 
-  return createOptFullStringParam()
+/**
+ * Options for polylineParam
+ */
+export interface PolylineParamOptions {
+  /** Decimal places kept per coordinate (default: 5, ≈1m for lat/lng) */
+  precision?: number
+  /** Points when param is missing (default: `[]`); omitted from URL */
+  default?: Point[]
 }
 
-function createOptLosslessBase64Param(alphabet?: Alphabet): Param<number | null> {
-  const opts = alphabet ? { alphabet } : undefined
+/**
+ * Create a param for a list of points in Google's encoded polyline format
+ *
+ * Coordinates are rounded to `precision` decimals and delta-encoded, so consecutive nearby
+ * points take a few characters each. Decoded points re-encode identically. Note that form
+ * encoding percent-escapes some polyline characters (`?`, `@`, `[`, `` ` ``, `{`, `|`, …).
+ *
+ * @example
+ * ```ts
+ * const routeParam = polylineParam()
+ * routeParam.encode([{ x: 38.5, y: -120.2 }, { x: 40.7, y: -120.95 }, { x: 43.252, y: -126.453 }])
+ * // "_p~iF~ps|U_ulLnnqC_mqNvxq`@"
+ * ```
+ */
+export function polylineParam(opts: PolylineParamOptions = {}): Param<Point[]> {
+  const { precision = 5, default: defaultPoints = [] } = opts
+  const defaultEncoded = encodePolyline(defaultPoints, precision)
+
   return {
-    encode: (value) => {
-      if (value === null) return undefined
-      return base64Encode(floatToBytes(value), opts)
+    encode: (points) => {
+      const encoded = encodePolyline(points, precision)
+      return encoded === defaultEncoded ? undefined : encoded
     },
     decode: (encoded) => {
-      if (encoded === undefined || encoded === '') return null
+      if (encoded === undefined) return defaultPoints
       try {
-        return bytesToFloat(base64Decode(encoded, opts))
+        return decodePolyline(encoded, precision)
       } catch {
-        return null
+        return defaultPoints
       }
     },
   }
 }
 
-function createOptLossyBase64Param(scheme: PrecisionScheme, alphabet?: Alphabet): Param<number | null> {
-  const opts = alphabet ? { alphabet } : undefined
-  return {
-    encode: (value) => {
-      if (value === null) return undefined
-      const buf = new BitBuffer()
-      buf.encodeFixedPoints([value], scheme)
-      return buf.toBase64(opts)
-    },
-    decode: (encoded) => {
-      if (encoded === undefined || encoded === '') return null
-      try {
-        const buf = BitBuffer.fromBase64(encoded, opts)
-        const [value] = buf.decodeFixedPoints(1, scheme)
-        return value
-      } catch {
-        return null
-      }
-    },
-  }
+/**
+ * Options for pointsParam
+ */
+export interface PointsParamOptions {
+  /** Mantissa bits (8-52) or custom scheme, shared by all coordinates. Default: 22 bits */
+  precision?: number | PrecisionScheme
+  /** Points when param is missing (default: `[]`); omitted from URL */
+  default?: Point[]
+  /** Alphabet preset or 64-char string, or a radix preset / 2–90-char string for radix-N */
+  alphabet?: Alphabet | RadixAlphabet
 }
 
-function createOptFullStringParam(): Param<number | null> {
-  return {
-    encode: (value) => {
-      if (value === null) return undefined
-      return value.toString()
-    },
-    decode: (encoded) => {
-      if (encoded === undefined || encoded === '') return null
-      const parsed = parseFloat(encoded)
-      return isNaN(parsed) ? null : parsed
-    },
+/**
+ * Create a param for a list of points, packed as fixed-point deltas with one shared exponent
+ *
+ * The point count (Elias gamma) is followed by `encodeFixedPointDeltas` of the interleaved
+ * coordinates, so each coordinate costs a few bits beyond its delta from the previous point.
+ * `precision` is relative to the largest coordinate (like `pointParam`); decoded points
+ * re-encode identically.
+ *
+ * @example
+ * ```ts
+ * const shapeParam = pointsParam({ precision: 16 })
+ * shapeParam.encode([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }]) // "dAAAgIAFAACAgAU"
+ * ```
+ */
+export function pointsParam(opts: PointsParamOptions = {}): Param<Point[]> {
+  const { precision, default: defaultPoints = [], alphabet } = opts
+  const scheme = resolvePrecision(precision)
+
+  const format = (points: Point[]): string => {
+    if (!points.length) return ''
+    const buf = new BitBuffer()
+    buf.encodeEliasGamma(points.length)
+    buf.encodeFixedPointDeltas(points.flatMap(({ x, y }) => [x, y]), scheme, { stride: 2 })
+    return encodeBuffer(buf, alphabet)
   }
-}
+  const defaultEncoded = format(defaultPoints)
 
-function createOptTruncatedStringParam(decimals: number): Param<number | null> {
-  const multiplier = Math.pow(10, decimals)
   return {
-    encode: (value) => {
-      if (value === null) return undefined
-      const truncated = Math.round(value * multiplier) / multiplier
-      return truncated.toFixed(decimals)
+    encode: (points) => {
+      const encoded = format(points)
+      return encoded === defaultEncoded ? undefined : encoded
     },
     decode: (encoded) => {
-      if (encoded === undefined || encoded === '') return null
-      const parsed = parseFloat(encoded)
-      return isNaN(parsed) ? null : parsed
+      if (encoded === undefined) return defaultPoints
+      if (encoded === '') return []
+      try {
+        const buf = decodeBuffer(encoded, alphabet)
+        const count = buf.decodeEliasGamma()
+        const coords = buf.decodeFixedPointDeltas(2 * count, scheme, { stride: 2 })
+        if (buf.totalBitOffset > buf.end) return defaultPoints
+        const points: Point[] = []
+        for (let i = 0; i < count; i++) points.push({ x: coords[2 * i], y: coords[2 * i + 1] })
+        return points
+      } catch {
+        return defaultPoints
+      }
     },
   }
 }
 
 /**
- * Convenience wrapper for base64 float encoding
- *
- * @example
- * ```ts
- * base64FloatParam(0)                    // lossless
- * base64FloatParam({ exp: 5, mant: 22 }) // lossy
- * ```
+ * Numeric interval; `null` sides are unbounded
  */
-export function base64FloatParam(optsOrDefault: number | Omit<FloatParamOptions, 'encoding' | 'decimals'> = 0): Param<number> {
-  const opts = typeof optsOrDefault === 'number'
-    ? { default: optsOrDefault }
-    : optsOrDefault
-  return floatParam({ ...opts, encoding: 'base64' })
+export interface NumberRange {
+  min: number | null
+  max: number | null
 }
 
 /**
- * 2D point type
+ * Options shared by rangeParam and intRangeParam
  */
-export interface Point {
-  x: number
-  y: number
+export interface IntRangeParamOptions {
+  /** Default range when param is missing or invalid (default: fully unbounded) */
+  default?: NumberRange
+  /** Values are clamped into these bounds when encoding and decoding */
+  bounds?: { min?: number; max?: number }
+  /**
+   * Keep ranges with min > max as-is; otherwise their sides are swapped
+   * @default false
+   */
+  allowInverted?: boolean
+  /**
+   * Allow open (`null`) sides; otherwise they're replaced by the corresponding bound, and
+   * ranges still missing a side are invalid
+   * @default true
+   */
+  allowUnbounded?: boolean
 }
 
 /**
- * Options for point param
+ * Options for rangeParam
  */
-export interface PointParamOptions {
-  /** Encoding mode */
+export interface RangeParamOptions extends IntRangeParamOptions {
+  /** Encoding mode: 'string' (default) or 'base64' */
   encoding?: FloatEncoding
-  /** For string encoding: decimal places */
+  /** For string encoding: number of decimal places (default: full precision) */
   decimals?: number
-  /** For binary encoding: mantissa bits (8-52) or custom scheme. Default: 22 bits */
+  /** For base64 encoding: mantissa bits (8-52) or custom scheme. Default: 22 bits */
   precision?: number | PrecisionScheme
-  /** Default point when param is missing */
-  default?: Point
-  /** For base64: alphabet preset or 64-char string */
-  alphabet?: Alphabet
+  /** For base64: alphabet preset or 64-char string, or a radix preset / 2–90-char string for radix-N */
+  alphabet?: Alphabet | RadixAlphabet
 }
 
 /**
- * Create a param for encoding a 2D point
+ * `min-max`, where either side may be empty. Numbers require a digit, so a leading `-` is
+ * a sign only if digits follow it before the delimiter: `-20` = (open, 20), `-5-20` = (-5, 20),
+ * `--5` = (open, -5), `-10--5` = (-10, -5).
+ */
+const RANGE_REGEX = /^(-?\d+(?:\.\d+)?(?:e[+-]?\d+)?)?-(-?\d+(?:\.\d+)?(?:e[+-]?\d+)?)?$/
+const INT_RANGE_REGEX = /^(-?\d+)?-(-?\d+)?$/
+
+/**
+ * Clamp, fill, and order a range per the options; null if it can't be made valid
+ */
+function normalizeRange(
+  range: NumberRange,
+  { bounds = {}, allowInverted = false, allowUnbounded = true }: IntRangeParamOptions,
+  round: (n: number) => number,
+): NumberRange | null {
+  const side = (n: number | null, bound: number | undefined): number | null => {
+    if (n === null || !isFinite(n)) {
+      return allowUnbounded || bound === undefined ? null : round(bound)
+    }
+    if (bounds.min !== undefined && n < bounds.min) n = bounds.min
+    if (bounds.max !== undefined && n > bounds.max) n = bounds.max
+    return round(n)
+  }
+  let min = side(range.min, bounds.min)
+  let max = side(range.max, bounds.max)
+  if (!allowUnbounded && (min === null || max === null)) return null
+  if (!allowInverted && min !== null && max !== null && min > max) {
+    [min, max] = [max, min]
+  }
+  return { min, max }
+}
+
+function createRangeParam(
+  opts: IntRangeParamOptions,
+  round: (n: number) => number,
+  format: (range: NumberRange) => string,
+  parse: (encoded: string) => NumberRange | null,
+): Param<NumberRange> {
+  const defaultRange = opts.default ?? { min: null, max: null }
+  const normalizedDefault = normalizeRange(defaultRange, opts, round)
+  const defaultEncoded = normalizedDefault && format(normalizedDefault)
+  return {
+    encode: (range) => {
+      const normalized = normalizeRange(range, opts, round)
+      if (normalized === null) return undefined
+      const encoded = format(normalized)
+      return encoded === defaultEncoded ? undefined : encoded
+    },
+    decode: (encoded) => {
+      if (encoded === undefined || encoded === '') return defaultRange
+      try {
+        const parsed = parse(encoded)
+        return (parsed && normalizeRange(parsed, opts, round)) ?? defaultRange
+      } catch {
+        return defaultRange
+      }
+    },
+  }
+}
+
+/**
+ * Create a param for a numeric interval with optional open ends
  *
- * String mode: "x,y" with truncated decimals
- * Binary mode: packed fixed-point with shared exponent
+ * String mode: `min-max`, with empty sides for open ends (`10-20`, `10-`, `-20`); a negative
+ * number's sign follows the delimiter, so `-5--1` is (-5, -1) and `--1` is (open, -1).
+ * Binary mode: two presence bits, then the present sides as fixed-point with a shared exponent.
  *
  * @example
  * ```ts
- * // String encoding
- * const posParam = pointParam({ encoding: 'string', decimals: 2 })
- * posParam.encode({ x: 1.234, y: 5.678 }) // "1.23 5.68"
- *
- * // Binary encoding (more compact)
- * const posParam = pointParam({ encoding: 'base64', precision: 22 })
- * posParam.encode({ x: 1.234, y: 5.678 }) // compact base64
+ * const price = rangeParam({ decimals: 2, bounds: { min: 0 } })
+ * price.encode({ min: 10, max: 20 })     // "10.00-20.00"
+ * price.encode({ min: 10, max: null })   // "10.00-"
+ * price.encode({ min: -5, max: 20 })     // "0.00-20.00" (clamped)
+ * price.decode('-20')                    // { min: null, max: 20 }
  * ```
  */
-export function pointParam(opts: PointParamOptions = {}): Param<Point | null> {
-  const {
-    encoding = 'base64',
-    decimals = 2,
-    precision,
-    default: defaultPoint = null,
-    alphabet,
-  } = opts
-
-  const scheme = resolvePrecision(precision)
-  const multiplier = Math.pow(10, decimals)
-  const base64Opts = alphabet ? { alphabet } : undefined
+export function rangeParam(opts: RangeParamOptions = {}): Param<NumberRange> {
+  const { encoding = 'string', decimals, precision, alphabet } = opts
 
-  return {
-    encode: (point) => {
-      if (point === null) return undefined
-      if (defaultPoint && point.x === defaultPoint.x && point.y === defaultPoint.y) {
-        return undefined
-      }
+  if (encoding === 'string' && precision !== undefined) {
+    throw new Error('precision option is only valid with encoding: "base64"')
+  }
+  if (encoding === 'base64' && decimals !== undefined) {
+    throw new Error('decimals option is only valid with encoding: "string"')
+  }
 
-      if (encoding === 'string') {
-        // String encoding: "x y" or "x-y" (space encodes as + in URLs)
-        // When y is negative, omit space - the minus sign acts as delimiter
-        const xTrunc = Math.round(point.x * multiplier) / multiplier
-        const yTrunc = Math.round(point.y * multiplier) / multiplier
-        // Always show full precision for consistent output length
-        const xStr = xTrunc.toFixed(decimals)
-        const yStr = yTrunc.toFixed(decimals)
-        // Only need space delimiter if y is non-negative
-        const delimiter = yTrunc >= 0 ? ' ' : ''
-        return `${xStr}${delimiter}${yStr}`
-      } else {
-        // Binary encoding with shared exponent
+  if (encoding === 'base64') {
+    const scheme = resolvePrecision(precision)
+    return createRangeParam(
+      opts,
+      n => n,
+      ({ min, max }) => {
         const buf = new BitBuffer()
-        buf.encodeFixedPoints([point.x, point.y], scheme)
-        return buf.toBase64(base64Opts)
+        buf.encodeInt(min === null ? 0 : 1, 1).encodeInt(max === null ? 0 : 1, 1)
+        const values = [min, max].filter((n): n is number => n !== null)
+        if (values.length) buf.encodeFixedPoints(values, scheme)
+        return encodeBuffer(buf, alphabet)
+      },
+      (encoded) => {
+        const buf = decodeBuffer(encoded, alphabet)
+        const hasMin = buf.decodeInt(1) === 1
+        const hasMax = buf.decodeInt(1) === 1
+        const values = buf.decodeFixedPoints(Number(hasMin) + Number(hasMax), scheme)
+        return {
+          min: hasMin ? values[0] : null,
+          max: hasMax ? values[values.length - 1] : null,
+        }
+      },
+    )
+  }
+
+  const multiplier = decimals === undefined ? undefined : Math.pow(10, decimals)
+  const round = multiplier === undefined ? (n: number) => n : (n: number) => Math.round(n * multiplier) / multiplier
+  const str = (n: number | null) => n === null ? '' : decimals === undefined ? n.toString() : n.toFixed(decimals)
+  return createRangeParam(
+    opts,
+    round,
+    ({ min, max }) => `${str(min)}-${str(max)}`,
+    (encoded) => {
+      const match = encoded.match(RANGE_REGEX)
+      if (!match) return null
+      return {
+        min: match[1] === undefined ? null : parseFloat(match[1]),
+        max: match[2] === undefined ? null : parseFloat(match[2]),
       }
     },
-    decode: (encoded) => {
-      if (encoded === undefined || encoded === '') return defaultPoint
+  )
+}
 
-      try {
-        if (encoding === 'string') {
-          // Split on space (URL decoding converts + back to space)
-          // If no space, look for minus sign (not at start) as delimiter
-          let x: number, y: number
-          if (encoded.includes(' ')) {
-            const parts = encoded.split(' ')
-            if (parts.length !== 2) return defaultPoint
-            x = parseFloat(parts[0])
-            y = parseFloat(parts[1])
-          } else {
-            // Find the minus sign that delimits y (skip any leading minus for x)
-            const minusIdx = encoded.indexOf('-', encoded[0] === '-' ? 1 : 0)
-            if (minusIdx === -1) return defaultPoint
-            x = parseFloat(encoded.slice(0, minusIdx))
-            y = parseFloat(encoded.slice(minusIdx))
-          }
-          if (isNaN(x) || isNaN(y)) return defaultPoint
-          return { x, y }
-        } else {
-          const buf = BitBuffer.fromBase64(encoded, base64Opts)
-          const [x, y] = buf.decodeFixedPoints(2, scheme)
-          return { x, y }
-        }
-      } catch {
-        return defaultPoint
+/**
+ * Create a param for an integer interval with optional open ends (`10-20`, `10-`, `-20`).
+ * Values are rounded to integers; see `rangeParam` for the format and options.
+ */
+export function intRangeParam(opts: IntRangeParamOptions = {}): Param<NumberRange> {
+  return createRangeParam(
+    opts,
+    Math.round,
+    ({ min, max }) => `${min ?? ''}-${max ?? ''}`,
+    (encoded) => {
+      const match = encoded.match(INT_RANGE_REGEX)
+      if (!match) return null
+      return {
+        min: match[1] === undefined ? null : parseInt(match[1], 10),
+        max: match[2] === undefined ? null : parseInt(match[2], 10),
       }
     },
-  }
+  )
 }
 
 /**
@@ -960,6 +1499,110 @@ export function encodePointAllModes(
   }
 }
 
+/** Geohash base32 alphabet (no a, i, l, o) */
+const GEOHASH_CHARS = '0123456789bcdefghjkmnpqrstuvwxyz'
+const GEOHASH_MAX_PRECISION = 12
+
+/**
+ * Encode a lat/lng as a geohash of `precision` characters (5 bits each, alternating
+ * longitude and latitude halvings)
+ *
+ * @example
+ * ```ts
+ * geohashEncode(40.7128, -74.006, 7) // "dr5regw"
+ * ```
+ */
+export function geohashEncode(lat: number, lng: number, precision: number): string {
+  if (!Number.isInteger(precision) || precision < 1 || precision > GEOHASH_MAX_PRECISION) {
+    throw new Error(`Geohash precision must be 1-${GEOHASH_MAX_PRECISION}, got ${precision}`)
+  }
+  const lngRange = [-180, 180]
+  const latRange = [-90, 90]
+  let result = ''
+  let bit = 0
+  let ch = 0
+  for (let i = 0; result.length < precision; i++) {
+    const [range, value] = i % 2 === 0 ? [lngRange, lng] : [latRange, lat]
+    const mid = (range[0] + range[1]) / 2
+    ch <<= 1
+    if (value >= mid) {
+      ch |= 1
+      range[0] = mid
+    } else {
+      range[1] = mid
+    }
+    if (++bit === 5) {
+      result += GEOHASH_CHARS[ch]
+      bit = 0
+      ch = 0
+    }
+  }
+  return result
+}
+
+/**
+ * Bounds of a geohash's cell, or `null` if it's malformed
+ */
+function geohashBounds(hash: string): { lat: [number, number]; lng: [number, number] } | null {
+  if (!hash || hash.length > GEOHASH_MAX_PRECISION) return null
+  const lngRange: [number, number] = [-180, 180]
+  const latRange: [number, number] = [-90, 90]
+  let i = 0
+  for (const char of hash) {
+    const ch = GEOHASH_CHARS.indexOf(char)
+    if (ch === -1) return null
+    for (let b = 4; b >= 0; b--, i++) {
+      const range = i % 2 === 0 ? lngRange : latRange
+      range[(ch >> b) & 1 ? 0 : 1] = (range[0] + range[1]) / 2
+    }
+  }
+  return { lat: latRange, lng: lngRange }
+}
+
+/**
+ * Decode a geohash to the center of its cell, or `null` if it's malformed
+ */
+export function geohashDecode(hash: string): { lat: number; lng: number } | null {
+  const bounds = geohashBounds(hash)
+  if (!bounds) return null
+  const { lat, lng } = bounds
+  return { lat: (lat[0] + lat[1]) / 2, lng: (lng[0] + lng[1]) / 2 }
+}
+
+/**
+ * Width and height in degrees of geohash cells with `precision` chars
+ */
+function geohashCellSize(precision: number): { lngSize: number; latSize: number } {
+  // Longitude gets the extra bit of odd-length hashes
+  const lngBits = Math.ceil(precision * 5 / 2)
+  return { lngSize: 360 / 2 ** lngBits, latSize: 180 / 2 ** (precision * 5 - lngBits) }
+}
+
+/**
+ * Geohash length whose cells are at most ~1px wide at `zoom` (256px tiles)
+ */
+function geohashPrecisionForZoom(zoom: number): number {
+  for (let precision = 1; precision < GEOHASH_MAX_PRECISION; precision++) {
+    // Longitude gets the extra bit of odd-length hashes
+    if (Math.ceil(precision * 5 / 2) >= zoom + 8) return precision
+  }
+  return GEOHASH_MAX_PRECISION
+}
+
+/**
+ * Web Mercator zoom at which `degrees` of longitude span one 256px tile
+ */
+function zoomForSpan(degrees: number): number {
+  return degrees > 0 ? Math.log2(360 / degrees) : Infinity
+}
+
+/**
+ * Wrap a longitude into [-180, 180)
+ */
+function wrapLng(lng: number): number {
+  return ((lng + 180) % 360 + 360) % 360 - 180
+}
+
 /**
  * Lat/lng/zoom (+ optional pitch/bearing) for map views
  */
@@ -987,6 +1630,8 @@ export interface LLZParamOptions {
   bearingDecimals?: number
   /** Field delimiter (default: '_', URL-safe in both query and hash params) */
   delimiter?: string
+  /** Write lat/lng as a geohash, with precision picked from zoom (default: false) */
+  geohash?: boolean
 }
 
 /**
@@ -1008,6 +1653,10 @@ export interface LLZParamOptions {
  *   default: { lat: 40.74, lng: -74.012, zoom: 11.8, pitch: 0, bearing: 0 },
  * }))
  * // URL: ?ll=40.7400_-74.0120_11.80_0_0
+ *
+ * // Geohash center, precise to ~1px at the view's zoom
+ * const [view, setView] = useUrlState('ll', llzParam({ default, geohash: true }))
+ * // URL: ?ll=dr5regw3_11.80
  * ```
  */
 export function llzParam(opts: LLZParamOptions): Param<LLZ> {
@@ -1018,13 +1667,15 @@ export function llzParam(opts: LLZParamOptions): Param<LLZ> {
     pitchDecimals = 0,
     bearingDecimals = 0,
     delimiter = '_',
+    geohash = false,
   } = opts
   const hasPB = def.pitch !== undefined || def.bearing !== undefined
 
   function format(v: LLZ): string {
     const parts = [
-      v.lat.toFixed(latLngDecimals),
-      v.lng.toFixed(latLngDecimals),
+      ...geohash
+        ? [geohashEncode(v.lat, v.lng, geohashPrecisionForZoom(v.zoom))]
+        : [v.lat.toFixed(latLngDecimals), v.lng.toFixed(latLngDecimals)],
       v.zoom.toFixed(zoomDecimals),
     ]
     if (hasPB) {
@@ -1047,14 +1698,16 @@ export function llzParam(opts: LLZParamOptions): Param<LLZ> {
     decode(s: string | undefined): LLZ {
       if (s === undefined || s === '') return def
       const parts = s.split(delimiter)
-      const lat = parseFloat(parts[0])
-      const lng = parseFloat(parts[1])
-      const zoom = parseFloat(parts[2])
-      if (isNaN(lat) || isNaN(lng) || isNaN(zoom)) return def
-      const result: LLZ = { lat, lng, zoom }
+      // Geohash mode has one lat/lng field instead of two
+      const center = geohash
+        ? geohashDecode(parts.shift()!)
+        : { lat: parseFloat(parts.shift()!), lng: parseFloat(parts.shift() ?? '') }
+      const zoom = parseFloat(parts[0] ?? '')
+      if (!center || isNaN(center.lat) || isNaN(center.lng) || isNaN(zoom)) return def
+      const result: LLZ = { lat: center.lat, lng: center.lng, zoom }
       if (hasPB) {
-        const pitch = parts[3] !== undefined ? parseFloat(parts[3]) : NaN
-        const bearing = parts[4] !== undefined ? parseFloat(parts[4]) : NaN
+        const pitch = parts[1] !== undefined ? parseFloat(parts[1]) : NaN
+        const bearing = parts[2] !== undefined ? parseFloat(parts[2]) : NaN
         result.pitch = isNaN(pitch) ? (def.pitch ?? 0) : pitch
         result.bearing = isNaN(bearing) ? (def.bearing ?? 0) : bearing
       }
@@ -1063,5 +1716,288 @@ export function llzParam(opts: LLZParamOptions): Param<LLZ> {
   }
 }
 
+/**
+ * Bounding box as `[west, south, east, north]` (GeoJSON order). `west > east` means the box
+ * crosses the antimeridian.
+ */
+export type BBox = [west: number, south: number, east: number, north: number]
+
+/**
+ * Longitude span of a bbox in degrees, accounting for antimeridian crossing
+ */
+function bboxLngSpan([west, , east]: BBox): number {
+  return east >= west ? east - west : east - west + 360
+}
+
+/**
+ * Larger of a bbox's longitude and latitude spans, in degrees
+ */
+function bboxSpan(bbox: BBox): number {
+  return Math.max(bboxLngSpan(bbox), bbox[3] - bbox[1])
+}
+
+/**
+ * Grow a normalized bbox outward to the edges of the geohash cells (at `precision`) containing
+ * its corners
+ */
+function snapBBox([west, south, east, north]: BBox, precision: number): BBox {
+  const { lngSize, latSize } = geohashCellSize(precision)
+  const floor = (v: number, size: number, min: number) => Math.floor((v - min) / size) * size + min
+  const ceil = (v: number, size: number, min: number) => Math.ceil((v - min) / size) * size + min
+  return [
+    floor(west, lngSize, -180),
+    floor(south, latSize, -90),
+    Math.max(ceil(east, lngSize, -180), -180 + lngSize),
+    Math.max(ceil(north, latSize, -90), -90 + latSize),
+  ]
+}
+
+/**
+ * Normalize a bbox's longitudes into [-180, 180]; boxes extending past ±180 become
+ * antimeridian-crossing (`west > east`), and boxes 360° or wider become [-180, 180]
+ */
+function normalizeBBox([west, south, east, north]: BBox): BBox {
+  if (east - west >= 360) return [-180, south, 180, north]
+  const w = wrapLng(west)
+  const e = wrapLng(east)
+  // Keep an east edge on the antimeridian at 180, not -180
+  return [w, south, e === -180 && east !== west ? 180 : e, north]
+}
+
+/**
+ * Options for bboxParam
+ */
+export interface BBoxParamOptions {
+  /** Default value when param is missing */
+  default: BBox
+  /** Decimal places for longitudes and latitudes (default: 4, ≈11m precision) */
+  latLngDecimals?: number
+  /** Field delimiter (default: '_', URL-safe in both query and hash params) */
+  delimiter?: string
+  /** Write corners as geohashes, with precision picked from the box's size (default: false) */
+  geohash?: boolean
+}
+
+/**
+ * Create a param for a bounding box (`[west, south, east, north]`)
+ *
+ * Longitudes are normalized into [-180, 180]; boxes that cross the antimeridian keep
+ * `west > east`. With `geohash`, the southwest and northeast corners are written as geohashes
+ * precise to ~1/256 of the box's size, and decode to the outer edges of their cells (so the
+ * decoded box contains the original, and re-encodes to the same string). Malformed values (or `south > north`) decode to the
+ * default.
+ *
+ * @example
+ * ```ts
+ * const [bbox, setBBox] = useUrlState('b', bboxParam({ default: [-74.05, 40.68, -73.9, 40.88] }))
+ * // [-74.1, 40.6, -73.8, 40.9] → ?b=-74.1000_40.6000_-73.8000_40.9000
+ * // [170, -20, 190, -10]       → ?b=170.0000_-20.0000_-170.0000_-10.0000
+ * // geohash: true              → ?b=dr5qcz40_dr788ts7
+ * ```
+ */
+export function bboxParam(opts: BBoxParamOptions): Param<BBox> {
+  const { default: def, latLngDecimals = 4, delimiter = '_', geohash = false } = opts
+
+  function format(bbox: BBox): string {
+    const normalized = normalizeBBox(bbox)
+    if (geohash) {
+      // Pick the precision from the box snapped outward to that precision's cells, so a decoded
+      // box (which is already snapped) picks the same precision and re-encodes identically
+      let precision = 1
+      let snapped = snapBBox(normalized, precision)
+      while (precision < GEOHASH_MAX_PRECISION && geohashPrecisionForZoom(zoomForSpan(bboxSpan(snapped))) > precision) {
+        snapped = snapBBox(normalized, ++precision)
+      }
+      const [west, south, east, north] = snapped
+      const { lngSize, latSize } = geohashCellSize(precision)
+      // Encode the corner cells by their centers, away from cell edges
+      return [
+        geohashEncode(south + latSize / 2, west + lngSize / 2, precision),
+        geohashEncode(north - latSize / 2, east - lngSize / 2, precision),
+      ].join(delimiter)
+    }
+    return normalized.map(v => v.toFixed(latLngDecimals)).join(delimiter)
+  }
+
+  const defaultEncoded = format(def)
+
+  return {
+    encode(bbox: BBox): string | undefined {
+      const encoded = format(bbox)
+      if (encoded === defaultEncoded) return undefined
+      return encoded
+    },
+    decode(s: string | undefined): BBox {
+      if (s === undefined || s === '') return def
+      const parts = s.split(delimiter)
+      let bbox: BBox
+      if (geohash) {
+        if (parts.length !== 2) return def
+        const sw = geohashBounds(parts[0])
+        const ne = geohashBounds(parts[1])
+        if (!sw || !ne) return def
+        // Outer corners of the corner cells, i.e. the snapped box that was encoded
+        bbox = [sw.lng[0], sw.lat[0], ne.lng[1], ne.lat[1]]
+      } else {
+        if (parts.length !== 4) return def
+        bbox = parts.map(parseFloat) as BBox
+      }
+      const [west, south, east, north] = bbox
+      if (bbox.some(isNaN) || south > north || Math.abs(south) > 90 || Math.abs(north) > 90) return def
+      if (Math.abs(west) > 180 || Math.abs(east) > 180) return def
+      return bbox
+    },
+  }
+}
+
+/**
+ * Circle on the map: center and radius in meters
+ */
+export interface GeoCircle {
+  lat: number
+  lng: number
+  radius: number
+}
+
+/** Mean Earth radius in meters */
+const EARTH_RADIUS = 6371008.8
+
+/**
+ * Options for geoCircleParam
+ */
+export interface GeoCircleParamOptions {
+  /** Default value when param is missing */
+  default: GeoCircle
+  /** Decimal places for lat/lng (default: 4, ≈11m precision) */
+  latLngDecimals?: number
+  /** Decimal places for radius in meters (default: 0) */
+  radiusDecimals?: number
+  /** Field delimiter (default: '_', URL-safe in both query and hash params) */
+  delimiter?: string
+  /** Write the center as a geohash, with precision picked from the radius (default: false) */
+  geohash?: boolean
+}
+
+/**
+ * Create a param for a center + radius (meters), e.g. a "near me" search area
+ *
+ * The center's longitude is wrapped into [-180, 180). With `geohash`, the center is written as
+ * a geohash precise to ~1/256 of the circle's diameter. Malformed values (or a negative
+ * radius) decode to the default.
+ *
+ * @example
+ * ```ts
+ * const [area, setArea] = useUrlState('a', geoCircleParam({
+ *   default: { lat: 40.7128, lng: -74.006, radius: 1000 },
+ * }))
+ * // { lat: 40.73, lng: -73.99, radius: 500 } → ?a=40.7300_-73.9900_500
+ * // geohash: true                             → ?a=dr5rsqdjk_500
+ * ```
+ */
+export function geoCircleParam(opts: GeoCircleParamOptions): Param<GeoCircle> {
+  const { default: def, latLngDecimals = 4, radiusDecimals = 0, delimiter = '_', geohash = false } = opts
+
+  function format({ lat, lng, radius }: GeoCircle): string {
+    lng = wrapLng(lng)
+    const r = radius.toFixed(radiusDecimals)
+    if (geohash) {
+      // Degrees of longitude spanned by the diameter at this latitude
+      const span = (2 * radius / (EARTH_RADIUS * Math.max(Math.cos(lat * Math.PI / 180), 1e-6))) * 180 / Math.PI
+      return [geohashEncode(lat, lng, geohashPrecisionForZoom(zoomForSpan(span))), r].join(delimiter)
+    }
+    return [lat.toFixed(latLngDecimals), lng.toFixed(latLngDecimals), r].join(delimiter)
+  }
+
+  const defaultEncoded = format(def)
+
+  return {
+    encode(v: GeoCircle): string | undefined {
+      const encoded = format(v)
+      if (encoded === defaultEncoded) return undefined
+      return encoded
+    },
+    decode(s: string | undefined): GeoCircle {
+      if (s === undefined || s === '') return def
+      const parts = s.split(delimiter)
+      if (parts.length !== (geohash ? 2 : 3)) return def
+      const center = geohash
+        ? geohashDecode(parts[0])
+        : { lat: parseFloat(parts[0]), lng: parseFloat(parts[1]) }
+      const radius = parseFloat(parts[parts.length - 1])
+      if (!center || isNaN(center.lat) || isNaN(center.lng) || isNaN(radius) || radius < 0) return def
+      if (Math.abs(center.lat) > 90 || Math.abs(center.lng) > 180) return def
+      return { lat: center.lat, lng: center.lng, radius }
+    },
+  }
+}
+
+/** Web Mercator latitude limit (the world is square at this latitude) */
+const MAX_MERCATOR_LAT = 85.0511287798066
+
+/**
+ * Latitude → Web Mercator y in [0, 1] (north to south)
+ */
+function mercatorY(lat: number): number {
+  const clamped = Math.max(-MAX_MERCATOR_LAT, Math.min(MAX_MERCATOR_LAT, lat))
+  const sin = Math.sin(clamped * Math.PI / 180)
+  return 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)
+}
+
+/**
+ * Web Mercator y in [0, 1] → latitude
+ */
+function mercatorLat(y: number): number {
+  return 360 / Math.PI * Math.atan(Math.exp((0.5 - y) * 2 * Math.PI)) - 90
+}
+
+/**
+ * Viewport size in pixels
+ */
+export interface ViewportSize {
+  width: number
+  height: number
+}
+
+/**
+ * Bounding box visible in a Web Mercator viewport centered on `llz`
+ *
+ * Pitch and bearing are ignored. Boxes wider than the world are clamped to [-180, 180];
+ * views straddling the antimeridian give `west > east`.
+ *
+ * @param tileSize - Tile size defining zoom levels: 512 (default) for Mapbox GL / MapLibre /
+ *   deck.gl, 256 for Leaflet / Google Maps
+ */
+export function llzToBBox({ lat, lng, zoom }: LLZ, { width, height }: ViewportSize, tileSize = 512): BBox {
+  const worldSize = tileSize * 2 ** zoom
+  const lngSpan = width / worldSize * 360
+  const y = mercatorY(lat)
+  const dy = height / worldSize / 2
+  const north = mercatorLat(Math.max(0, y - dy))
+  const south = mercatorLat(Math.min(1, y + dy))
+  return normalizeBBox([lng - lngSpan / 2, south, lng + lngSpan / 2, north])
+}
+
+/**
+ * Center and (fractional) zoom that fit `bbox` in a Web Mercator viewport
+ *
+ * @param tileSize - Tile size defining zoom levels: 512 (default) for Mapbox GL / MapLibre /
+ *   deck.gl, 256 for Leaflet / Google Maps
+ */
+export function bboxToLLZ(bbox: BBox, { width, height }: ViewportSize, tileSize = 512): LLZ {
+  const [west, south, , north] = bbox
+  const lngSpan = bboxLngSpan(bbox)
+  const yNorth = mercatorY(north)
+  const ySouth = mercatorY(south)
+  const zoom = Math.min(
+    Math.log2(width * 360 / (lngSpan * tileSize)),
+    Math.log2(height / ((ySouth - yNorth) * tileSize)),
+  )
+  return {
+    lat: mercatorLat((yNorth + ySouth) / 2),
+    lng: wrapLng(west + lngSpan / 2),
+    zoom,
+  }
+}
+
 // Re-export precision schemes
 export { precisionSchemes as PRECISION_SCHEMES }
@@ -3,12 +3,20 @@
  */
 
 // Re-export core types and strategies
-export type { MultiEncoded, LocationStrategy } from './core.js'
+export type {
+  MultiEncoded,
+  LocationStrategy,
+  ParamEncoding,
+  QueryStrategyOptions,
+  HashStrategyOptions,
+} from './core.js'
 export {
   parseMultiParams,
   serializeMultiParams,
   queryStrategy,
+  createQueryStrategy,
   hashStrategy,
+  createHashStrategy,
   getDefaultStrategy,
   setDefaultStrategy,
   notifyLocationChange,
@@ -121,8 +129,18 @@ export function updateUrl(params: Record<string, Encoded>, push = false): void {
 }
 
 export * from './params.js'
+export * from './combinators.js'
 export * from './multiParams.js'
 export * from './useUrlState.js'
+export * from './store.js'
+export * from './context.js'
+export * from './memory.js'
+export * from './path.js'
 export * from './alphabet.js'
+export * from './radix.js'
 export * from './binary.js'
 export * from './float.js'
+export * from './bitStruct.js'
+export * from './json.js'
+export * from './compress.js'
+export * from './uuid.js'
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { jsonParam, risonStringify, risonParse } from './json'
+import { serializeMultiParams } from './core'
+
+describe('rison', () => {
+  const cases: [unknown, string][] = [
+    [null, '!n'],
+    [true, '!t'],
+    [false, '!f'],
+    [0, '0'],
+    [-1.5, '-1.5'],
+    [1e21, '1e21'],
+    [1e-7, '1e-7'],
+    ['abc', 'abc'],
+    ['', "''"],
+    ['a b', "'a b'"],
+    ['123', "'123'"],
+    ['-x', "'-x'"],
+    ["it's!", "'it!'s!!'"],
+    [[], '!()'],
+    [[1, 'a', [true]], '!(1,a,!(!t))'],
+    [{}, '()'],
+    [{ a: 1, 'b c': [null] }, "(a:1,'b c':!(!n))"],
+  ]
+
+  it('stringifies', () => {
+    for (const [value, rison] of cases) {
+      expect(risonStringify(value)).toBe(rison)
+    }
+  })
+
+  it('parses', () => {
+    for (const [value, rison] of cases) {
+      expect(risonParse(rison)).toEqual(value)
+    }
+  })
+
+  it('parses __proto__ as an own key', () => {
+    const parsed = risonParse('(__proto__:(polluted:!t))') as Record<string, unknown>
+    expect(Object.getPrototypeOf(parsed)).toBe(Object.prototype)
+    expect(parsed.polluted).toBeUndefined()
+    expect(Object.keys(parsed)).toEqual(['__proto__'])
+    expect(parsed).toEqual(JSON.parse('{"__proto__":{"polluted":true}}'))
+  })
+
+  it('normalizes like JSON.stringify', () => {
+    expect(risonStringify({ a: undefined, b: NaN, c: new Date(0) })).toBe("(b:!n,c:'1970-01-01T00:00:00.000Z')")
+    expect(() => risonStringify(undefined)).toThrow('not JSON-serializable')
+  })
+
+  it('rejects malformed input', () => {
+    for (const bad of ['(a:1', '!(1,2', "'abc", '!x', '(a)', '1 2', '!(1,,2)', "'a!b'", '', ')']) {
+      expect(() => risonParse(bad), bad).toThrow('Invalid Rison')
+    }
+  })
+})
+
+describe('jsonParam', () => {
+  const init = { type: 'line', series: ['a'], opts: { log: false } }
+  const value = { type: 'bar', series: ['a', 'b'], opts: { log: true, title: 'Air quality' } }
+
+  it('rison by default', () => {
+    const param = jsonParam(init)
+    const encoded = param.encode(value)!
+    expect(encoded).toBe("(type:bar,series:!(a,b),opts:(log:!t,title:'Air quality'))")
+    expect(param.decode(encoded)).toEqual(value)
+    // Only ':' and ',' need escaping under form encoding; none under minimal
+    expect(serializeMultiParams({ c: [encoded] }, 'minimal')).toBe("c=(type:bar,series:!(a,b),opts:(log:!t,title:'Air+quality'))")
+  })
+
+  it('json and base64 encodings', () => {
+    const json = jsonParam(init, { encoding: 'json' })
+    expect(json.encode(value)).toBe(JSON.stringify(value))
+    expect(json.decode(JSON.stringify(value))).toEqual(value)
+
+    const base64 = jsonParam(init, { encoding: 'base64' })
+    const encoded = base64.encode({ ...value, type: 'ünïcödé' })!
+    expect(encoded).toMatch(/^[z.][A-Za-z0-9_-]+$/)
+    expect(base64.decode(encoded)).toEqual({ ...value, type: 'ünïcödé' })
+    // Too short to benefit from deflating
+    expect(base64.encode({ type: 'é' } as unknown as typeof init)).toBe('.eyJ0eXBlIjoiw6kifQ')
+    expect(base64.decode('.eyJ0eXBlIjoiw6kifQ')).toEqual({ type: 'é' })
+  })
+
+  it('deflates base64 when that is shorter', () => {
+    const filters = { filters: ['status', 'owner', 'region', 'team'].map(field => ({ field, op: 'in', values: ['a', 'b'] })) }
+    const param = jsonParam<typeof filters>({ filters: [] }, { encoding: 'base64' })
+    const encoded = param.encode(filters)!
+    expect(encoded).toMatch(/^z[A-Za-z0-9_-]+$/)
+    expect(encoded.length).toBeLessThan(JSON.stringify(filters).length)
+    expect(param.decode(encoded)).toEqual(filters)
+    expect(param.decode('x' + encoded.slice(1))).toEqual({ filters: [] })
+  })
+
+  it('decodes headerless base64', () => {
+    const param = jsonParam(init, { encoding: 'base64' })
+    const legacy = btoa(JSON.stringify(value)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_')
+    expect(param.decode(legacy)).toEqual(value)
+    expect(param.decode('eyJ0eXBlIjoiw6kifQ')).toEqual({ type: 'é' })
+  })
+
+  it('omits values deeply equal to the default', () => {
+    const param = jsonParam(init)
+    expect(param.encode({ opts: { log: false }, series: ['a'], type: 'line' })).toBeUndefined()
+    expect(param.encode({ ...init, series: ['a', 'b'] })).toBeDefined()
+    expect(param.decode(undefined)).toBe(init)
+  })
+
+  it('falls back to the default on decode failure', () => {
+    expect(jsonParam(init).decode('(type:bar')).toBe(init)
+    expect(jsonParam(init, { encoding: 'json' }).decode('{"type":')).toBe(init)
+    expect(jsonParam(init, { encoding: 'base64' }).decode('!!!')).toBe(init)
+  })
+
+  it('validates decoded values', () => {
+    const isConfig = (v: unknown): v is typeof init =>
+      typeof v === 'object' && v !== null && typeof (v as { type?: unknown }).type === 'string'
+    const param = jsonParam(init, { validate: isConfig })
+    expect(param.decode('(type:1)')).toBe(init)
+    expect(param.decode('(type:bar,series:!(),opts:())')).toEqual({ type: 'bar', series: [], opts: {} })
+  })
+})
@@ -0,0 +1,238 @@
+/**
+ * Structured (JSON-compatible) params
+ *
+ * Nested values like chart configs or filter trees, as plain JSON, a Rison-style dialect
+ * that survives URL encoding nearly unescaped, or base64.
+ */
+
+import type { Param } from './index.js'
+import { base64Decode, type Alphabet } from './binary.js'
+import { decodeCompressedBytes, encodeCompressedBytes } from './compress.js'
+
+/**
+ * JSON-compatible value
+ */
+export type JsonValue = null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue }
+
+/**
+ * Encoding modes for jsonParam:
+ * - `'json'`: `JSON.stringify` output (`{"a":[1,2]}`, heavily percent-escaped in URLs)
+ * - `'rison'`: Rison dialect (`(a:!(1,2))`), nearly unescaped in URLs
+ * - `'base64'`: UTF-8 JSON bytes, deflated when that's shorter, in base64 (opaque, but never
+ *   escaped). A one-character header says which: `z` for deflated, `.` for plain (as in
+ *   `compressedParam`). Headerless base64 JSON is also accepted when decoding.
+ */
+export type JsonEncoding = 'json' | 'rison' | 'base64'
+
+/**
+ * Characters that can't appear in unquoted Rison strings
+ */
+const RISON_NOT_IDCHAR = ` '!:(),*@$`
+
+/**
+ * Unquoted Rison strings: no special characters, and not starting like a number
+ */
+const RISON_ID = /^[^-0-9 '!:(),*@$][^ '!:(),*@$]*$/
+
+const RISON_NUMBER = /^-?\d+(?:\.\d+)?(?:e[+-]?\d+)?/i
+
+function risonString(str: string): string {
+  if (RISON_ID.test(str)) return str
+  return `'${str.replace(/[!']/g, '!$&')}'`
+}
+
+function risonValue(value: JsonValue): string {
+  if (value === null) return '!n'
+  if (value === true) return '!t'
+  if (value === false) return '!f'
+  if (typeof value === 'number') return String(value).replace('e+', 'e')
+  if (typeof value === 'string') return risonString(value)
+  if (Array.isArray(value)) return `!(${value.map(risonValue).join(',')})`
+  return `(${Object.entries(value).map(([k, v]) => `${risonString(k)}:${risonValue(v)}`).join(',')})`
+}
+
+/**
+ * Serialize a value as Rison: JSON's data model with URL-friendly syntax.
+ * `{ a: [1, true], b: 'x y' }` → `(a:!(1,!t),b:'x y')`
+ *
+ * Values are normalized like `JSON.stringify` (`toJSON` is applied, `undefined` and functions
+ * are dropped, non-finite numbers become `null`).
+ */
+export function risonStringify(value: unknown): string {
+  const json = JSON.stringify(value)
+  if (json === undefined) throw new Error('Value is not JSON-serializable')
+  return risonValue(JSON.parse(json) as JsonValue)
+}
+
+/**
+ * Parse a Rison string
+ * @throws Error on malformed input
+ */
+export function risonParse(str: string): JsonValue {
+  let i = 0
+
+  const fail = (msg: string): never => {
+    throw new Error(`Invalid Rison at ${i}: ${msg}`)
+  }
+
+  const expect = (char: string) => {
+    if (str[i] !== char) fail(`expected '${char}'`)
+    i++
+  }
+
+  function parseString(): string {
+    if (str[i] === "'") {
+      i++
+      let result = ''
+      while (str[i] !== "'") {
+        if (i >= str.length) fail('unterminated string')
+        if (str[i] === '!') {
+          i++
+          if (str[i] !== '!' && str[i] !== "'") fail(`invalid escape '!${str[i] ?? ''}'`)
+        }
+        result += str[i++]
+      }
+      i++
+      return result
+    }
+    const start = i
+    while (i < str.length && !RISON_NOT_IDCHAR.includes(str[i])) i++
+    const id = str.slice(start, i)
+    if (!RISON_ID.test(id)) fail('expected a string')
+    return id
+  }
+
+  function parseValue(): JsonValue {
+    const char = str[i]
+    if (char === '(') {
+      i++
+      const obj: { [key: string]: JsonValue } = {}
+      while (str[i] !== ')') {
+        if (Object.keys(obj).length) expect(',')
+        const key = parseString()
+        expect(':')
+        // Define rather than assign, so a `__proto__` key is an own property (like `JSON.parse`)
+        Object.defineProperty(obj, key, { value: parseValue(), enumerable: true, writable: true, configurable: true })
+      }
+      i++
+      return obj
+    }
+    if (char === '!') {
+      i++
+      const tag = str[i++]
+      if (tag === 't') return true
+      if (tag === 'f') return false
+      if (tag === 'n') return null
+      if (tag !== '(') fail(`unknown '!${tag ?? ''}'`)
+      const arr: JsonValue[] = []
+      while (str[i] !== ')') {
+        if (i >= str.length) fail('unterminated array')
+        if (arr.length) expect(',')
+        arr.push(parseValue())
+      }
+      i++
+      return arr
+    }
+    if (char === '-' || (char >= '0' && char <= '9')) {
+      const match = str.slice(i).match(RISON_NUMBER)
+      if (!match) return fail('invalid number')
+      i += match[0].length
+      return parseFloat(match[0])
+    }
+    return parseString()
+  }
+
+  const value = parseValue()
+  if (i !== str.length) fail('unexpected trailing characters')
+  return value
+}
+
+/**
+ * Structural equality for JSON-compatible values (object key order is ignored)
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  if (Array.isArray(a)) {
+    const bArr = b as unknown[]
+    return a.length === bArr.length && a.every((v, i) => deepEqual(v, bArr[i]))
+  }
+  const aObj = a as Record<string, unknown>
+  const bObj = b as Record<string, unknown>
+  const keys = Object.keys(aObj).filter(k => aObj[k] !== undefined)
+  return keys.length === Object.keys(bObj).filter(k => bObj[k] !== undefined).length
+    && keys.every(k => deepEqual(aObj[k], bObj[k]))
+}
+
+/**
+ * Options for jsonParam
+ */
+export interface JsonParamOptions<T> {
+  /** @default 'rison' */
+  encoding?: JsonEncoding
+  /** For base64 encoding: alphabet preset or 64-char string */
+  alphabet?: Alphabet
+  /** Reject decoded values that don't match the expected shape (they decode to the default) */
+  validate?: (value: unknown) => value is T
+}
+
+/**
+ * Create a param for JSON-compatible structured values.
+ *
+ * Omitted from URL when deeply equal to the default (key order ignored). Unparseable values,
+ * and values failing `validate`, decode to the default.
+ *
+ * @example
+ * ```ts
+ * const chartParam = jsonParam({ type: 'line', series: ['a'], opts: { log: false } })
+ * // { type: 'bar', series: ['a', 'b'], opts: { log: true } }
+ * // rison:  ?c=(type:bar,series:!(a,b),opts:(log:!t))
+ * // json:   ?c=%7B%22type%22%3A%22bar%22...
+ * // base64: ?c=.eyJ0eXBlIjoiYmFyIi...  (z… when deflating is shorter)
+ * ```
+ */
+export function jsonParam<T>(init: T, opts: JsonParamOptions<T> = {}): Param<T> {
+  const { encoding = 'rison', alphabet, validate } = opts
+
+  const parseBytes = (bytes: Uint8Array): unknown => JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes))
+
+  const stringify = (value: T): string => {
+    switch (encoding) {
+      case 'json': return JSON.stringify(value)
+      case 'rison': return risonStringify(value)
+      case 'base64': return encodeCompressedBytes(new TextEncoder().encode(JSON.stringify(value)), alphabet)
+    }
+  }
+
+  const parse = (encoded: string): unknown => {
+    switch (encoding) {
+      case 'json': return JSON.parse(encoded)
+      case 'rison': return risonParse(encoded)
+      case 'base64':
+        try {
+          return parseBytes(decodeCompressedBytes(encoded, alphabet))
+        } catch {
+          // Headerless base64, as written before compression was added
+          return parseBytes(base64Decode(encoded, alphabet ? { alphabet } : undefined))
+        }
+    }
+  }
+
+  return {
+    encode: (value) => {
+      if (deepEqual(value, init)) return undefined
+      return stringify(value)
+    },
+    decode: (encoded) => {
+      if (encoded === undefined || encoded === '') return init
+      try {
+        const value = parse(encoded)
+        if (validate && !validate(value)) return init
+        return value as T
+      } catch {
+        return init
+      }
+    },
+  }
+}
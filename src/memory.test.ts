@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createMemoryStrategy } from './memory.js'
+import { getUrlStore } from './store.js'
+
+describe('createMemoryStrategy', () => {
+  it('runs without a DOM', () => {
+    expect(typeof window).toBe('undefined')
+  })
+
+  it('parses initial URL', () => {
+    const memory = createMemoryStrategy('/page?a=1&b=x&b=y')
+    expect(memory.href).toBe('http://localhost/page?a=1&b=x&b=y')
+    expect(memory.getRaw()).toBe('?a=1&b=x&b=y')
+    expect(memory.getParams()).toEqual({ a: ['1'], b: ['x', 'y'] })
+  })
+
+  it('defaults to empty root URL', () => {
+    const memory = createMemoryStrategy()
+    expect(memory.href).toBe('http://localhost/')
+    expect(memory.getParams()).toEqual({})
+  })
+
+  it('builds URLs from params', () => {
+    const memory = createMemoryStrategy('/page?a=1')
+    const url = memory.buildUrl(new URL(memory.getHref()), { a: ['2'], z: [''] })
+    expect(url).toBe('http://localhost/page?a=2&z')
+  })
+
+  it('pushes, replaces, and navigates history', () => {
+    const memory = createMemoryStrategy('/?n=1')
+    memory.push('?n=2')
+    memory.push('?n=3')
+    expect(memory.entries).toEqual([
+      'http://localhost/?n=1',
+      'http://localhost/?n=2',
+      'http://localhost/?n=3',
+    ])
+    expect(memory.index).toBe(2)
+
+    memory.back()
+    expect(memory.getParams()).toEqual({ n: ['2'] })
+    memory.replace('?n=20')
+    expect(memory.entries[1]).toBe('http://localhost/?n=20')
+
+    memory.forward()
+    expect(memory.getParams()).toEqual({ n: ['3'] })
+
+    memory.go(-10)
+    expect(memory.index).toBe(0)
+
+    // Push discards forward entries
+    memory.push('?n=4')
+    expect(memory.entries).toEqual(['http://localhost/?n=1', 'http://localhost/?n=4'])
+  })
+
+  it('notifies subscribers on navigation', () => {
+    const memory = createMemoryStrategy('/?n=1')
+    const callback = vi.fn()
+    const unsubscribe = memory.subscribe(callback)
+
+    memory.push('?n=2')
+    memory.back()
+    memory.back() // no-op at start of history
+    expect(callback).toHaveBeenCalledTimes(2)
+
+    unsubscribe()
+    memory.forward()
+    expect(callback).toHaveBeenCalledTimes(2)
+  })
+
+  it('stores params in hash', () => {
+    const memory = createMemoryStrategy('/#a=1', { location: 'hash' })
+    expect(memory.getParams()).toEqual({ a: ['1'] })
+    expect(memory.buildUrl(new URL(memory.getHref()), { a: ['2'] })).toBe('http://localhost/#a=2')
+  })
+
+  it('receives batched writes from the URL store', async () => {
+    const memory = createMemoryStrategy('/?keep=1')
+    const store = getUrlStore(memory)
+
+    store.write({ a: ['1'] })
+    store.write({ b: ['2'] }, true)
+    await Promise.resolve()
+
+    expect(memory.entries).toEqual([
+      'http://localhost/?keep=1',
+      'http://localhost/?keep=1&a=1&b=2',
+    ])
+  })
+})
@@ -0,0 +1,177 @@
+/**
+ * In-memory location strategy for tests and non-browser hosts (Node, React Native)
+ */
+
+import type { LocationStrategy, MultiEncoded, ParamEncoding } from './core.js'
+import { parseMultiParams, serializeMultiParams } from './core.js'
+
+/** Base for resolving relative URLs passed to the memory strategy */
+const MEMORY_ORIGIN = 'http://localhost'
+
+/**
+ * Options for createMemoryStrategy
+ */
+export interface MemoryStrategyOptions {
+  /**
+   * Which part of the URL holds params
+   * @default 'query'
+   */
+  location?: 'query' | 'hash'
+  /**
+   * How params are escaped when written (see `ParamEncoding`)
+   * @default 'form'
+   */
+  encoding?: ParamEncoding
+}
+
+/**
+ * LocationStrategy backed by an in-memory history stack, plus navigation and inspection helpers
+ */
+export interface MemoryStrategy extends LocationStrategy {
+  parseUrl(url: URL): Record<string, MultiEncoded>
+  getHref(): string
+  navigate(url: string, push: boolean): void
+  /** Current URL (absolute; a relative initial URL is resolved against http://localhost) */
+  readonly href: string
+  /** All history entries, oldest first */
+  readonly entries: readonly string[]
+  /** Index of the current entry in `entries` */
+  readonly index: number
+  /** Params at the current location */
+  getParams(): Record<string, MultiEncoded>
+  /** Add a history entry (like `history.pushState`), discarding any forward entries */
+  push(url: string): void
+  /** Replace the current history entry (like `history.replaceState`) */
+  replace(url: string): void
+  /** Move through history by `delta` entries, clamped to the stack (like `history.go`) */
+  go(delta: number): void
+  /** Go back one entry (like `history.back`) */
+  back(): void
+  /** Go forward one entry (like `history.forward`) */
+  forward(): void
+}
+
+/**
+ * Create a LocationStrategy that keeps its own URL and history stack instead of using
+ * `window.location`/`window.history`. Works with every hook (via `UrlStateProvider`) and
+ * without a DOM.
+ *
+ * @param initialUrl - Starting URL, absolute or relative (e.g. `'/?n=1'`)
+ * @param opts - Options (which URL part holds params, how they're escaped)
+ *
+ * @example
+ * ```tsx
+ * const memory = createMemoryStrategy('/?n=1')
+ * render(
+ *   <UrlStateProvider strategy={memory}><Counter /></UrlStateProvider>
+ * )
+ * // ... interact ...
+ * expect(memory.getParams()).toEqual({ n: ['2'] })
+ * memory.back()
+ * ```
+ */
+export function createMemoryStrategy(initialUrl = '/', opts: MemoryStrategyOptions = {}): MemoryStrategy {
+  const { location = 'query', encoding = 'form' } = opts
+  // Relative URLs resolve against the current entry, like browser history
+  const resolve = (url: string, base = MEMORY_ORIGIN) => new URL(url, base).toString()
+
+  let entries: string[] = [resolve(initialUrl)]
+  let index = 0
+  const listeners = new Set<() => void>()
+
+  function notify(): void {
+    for (const listener of [...listeners]) listener()
+  }
+
+  function current(): URL {
+    return new URL(entries[index])
+  }
+
+  const strategy: MemoryStrategy = {
+    getRaw(): string {
+      const url = current()
+      return location === 'hash' ? url.hash : url.search
+    },
+
+    parse(): Record<string, MultiEncoded> {
+      return strategy.parseUrl(current())
+    },
+
+    parseUrl(url: URL): Record<string, MultiEncoded> {
+      return parseMultiParams(location === 'hash' ? url.hash.slice(1) : url.search)
+    },
+
+    buildUrl(base: URL, params: Record<string, MultiEncoded>): string {
+      if (location === 'hash') {
+        base.hash = serializeMultiParams(params, encoding)
+      } else {
+        base.search = serializeMultiParams(params, encoding)
+      }
+      return base.toString()
+    },
+
+    subscribe(callback: () => void): () => void {
+      listeners.add(callback)
+      return () => {
+        listeners.delete(callback)
+      }
+    },
+
+    getHref(): string {
+      return entries[index]
+    },
+
+    navigate(url: string, push: boolean): void {
+      if (push) {
+        strategy.push(url)
+      } else {
+        strategy.replace(url)
+      }
+    },
+
+    get href(): string {
+      return entries[index]
+    },
+
+    get entries(): readonly string[] {
+      return [...entries]
+    },
+
+    get index(): number {
+      return index
+    },
+
+    getParams(): Record<string, MultiEncoded> {
+      return strategy.parse()
+    },
+
+    push(url: string): void {
+      entries = [...entries.slice(0, index + 1), resolve(url, entries[index])]
+      index = entries.length - 1
+      notify()
+    },
+
+    replace(url: string): void {
+      entries = [...entries]
+      entries[index] = resolve(url, entries[index])
+      notify()
+    },
+
+    go(delta: number): void {
+      const next = Math.max(0, Math.min(entries.length - 1, index + delta))
+      if (next === index) return
+      index = next
+      notify()
+    },
+
+    back(): void {
+      strategy.go(-1)
+    },
+
+    forward(): void {
+      strategy.go(1)
+    },
+  }
+
+  return strategy
+}
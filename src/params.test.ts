@@ -11,6 +11,15 @@ import {
   paginationParam,
   codeParam,
   codesParam,
+  setParam,
+  flagsParam,
+  sortParam,
+  dateParam,
+  optDateParam,
+  dateTimeParam,
+  timeRangeParam,
+  resolveTimeRange,
+  type TimeRange,
 } from './params.js'
 import { floatParam } from './float.js'
 
@@ -450,6 +459,358 @@ describe('codesParam', () => {
   })
 })
 
+describe('setParam', () => {
+  const all = ['g', 'b', 'r', 'k'] as const
+
+  it('encodes in canonical order regardless of insertion order', () => {
+    const param = setParam(all, { default: [] })
+    expect(param.encode(new Set(['r', 'g']))).toBe('gr')
+    expect(param.encode(new Set(['g', 'r']))).toBe('gr')
+    expect([...param.decode('rg')]).toEqual(['g', 'r'])
+  })
+
+  it('omits sets equal to the default in any order', () => {
+    const param = setParam(all, { default: ['r', 'g'] })
+    expect(param.encode(new Set(['g', 'r']))).toBeUndefined()
+    expect(param.decode(undefined)).toEqual(new Set(['g', 'r']))
+    // Default is all values
+    expect(setParam(all).encode(new Set(['k', 'r', 'b', 'g']))).toBeUndefined()
+  })
+
+  it('delta-encodes against the default', () => {
+    const param = setParam(all, { default: ['g'] })
+    expect(param.encode(new Set(['g', 'b', 'r']))).toBe(' br')
+    expect(param.encode(new Set(['g', 'k']))).toBe(' k')
+    expect(param.encode(new Set(['b', 'r']))).toBe('br')
+    expect(param.encode(new Set())).toBe('')
+
+    const big = setParam(all, { default: ['g', 'b', 'r'] })
+    expect(big.encode(new Set(['g', 'b']))).toBe('-r')
+    expect(big.encode(new Set(['b', 'k']))).toBe('bk')
+    expect(big.encode(new Set(['g', 'b', 'r', 'k']))).toBe(' k')
+  })
+
+  it('decodes deltas, including a literal + prefix', () => {
+    const param = setParam(all, { default: ['g'] })
+    expect(param.decode(' br')).toEqual(new Set(['g', 'b', 'r']))
+    expect(param.decode('+br')).toEqual(new Set(['g', 'b', 'r']))
+    expect(param.decode(' k-g')).toEqual(new Set(['k']))
+    expect(param.decode('-g')).toEqual(new Set())
+    expect(param.decode('')).toEqual(new Set())
+  })
+
+  it('roundtrips every subset', () => {
+    const param = setParam(all, { default: ['g', 'b'] })
+    for (let mask = 0; mask < 16; mask++) {
+      const set = new Set(all.filter((_, i) => mask & (1 << i)))
+      expect(param.decode(param.encode(set))).toEqual(set)
+    }
+  })
+
+  it('supports codes and separators', () => {
+    const regions = ['NYC', 'JC', 'HOB'] as const
+    const param = setParam(regions, { codes: { NYC: 'nyc', JC: 'jc', HOB: 'hob' }, separator: '.', default: ['NYC'] })
+    expect(param.encode(new Set(['JC', 'NYC']))).toBe(' jc')
+    expect(param.encode(new Set(['HOB', 'JC']))).toBe('jc.hob')
+    expect(param.decode(' jc.hob-nyc')).toEqual(new Set(['JC', 'HOB']))
+    expect(param.decode('hob.xyz')).toEqual(new Set(['HOB']))
+  })
+
+  it('can disable delta encoding', () => {
+    const param = setParam(all, { default: ['g'], delta: false })
+    expect(param.encode(new Set(['g', 'k']))).toBe('gk')
+    expect(param.decode('gk')).toEqual(new Set(['g', 'k']))
+  })
+
+  it('validates codes', () => {
+    expect(() => setParam(['ab', 'c'])).toThrow("code 'ab' must be a single character")
+    expect(() => setParam(['a-b', 'c'], { separator: ',' })).toThrow("contain '-'")
+  })
+})
+
+describe('flagsParam', () => {
+  const all = Array.from({ length: 100 }, (_, i) => `opt${i}`)
+
+  it('lists few members', () => {
+    const param = flagsParam(all)
+    expect(param.encode(new Set(['opt90', 'opt50']))).toBe('opt50,opt90')
+    expect(param.decode('opt90,opt50')).toEqual(new Set(['opt50', 'opt90']))
+    // Early members pack into fewer chars
+    expect(param.encode(new Set(['opt3', 'opt1']))).toBe('~U')
+  })
+
+  it('packs many members as a bitset', () => {
+    const param = flagsParam(all)
+    const evens = new Set(all.filter((_, i) => i % 2 === 0))
+    const encoded = param.encode(evens)!
+    expect(encoded.startsWith('~')).toBe(true)
+    // Last set bit is #98 → 99 bits → 17 base64 chars
+    expect(encoded).toHaveLength(1 + 17)
+    expect(param.decode(encoded)).toEqual(evens)
+  })
+
+  it('trims trailing unset bits', () => {
+    const param = flagsParam(all)
+    const first = new Set(all.slice(0, 12))
+    // 12 bits → 2 chars, shorter than 12 listed names
+    expect(param.encode(first)).toBe('~__')
+  })
+
+  it('stays stable when values are appended', () => {
+    const v1 = flagsParam(all.slice(0, 50))
+    const v2 = flagsParam(all)
+    const set = new Set(all.slice(10, 40))
+    expect(v2.decode(v1.encode(set))).toEqual(set)
+    expect(v2.encode(set)).toBe(v1.encode(set))
+    // Older lists ignore bits for values they don't know
+    const withNew = new Set([...set, 'opt99'])
+    expect(v1.decode(v2.encode(withNew))).toEqual(set)
+  })
+
+  it('omits the default', () => {
+    const param = flagsParam(all, { default: ['opt0'] })
+    expect(param.encode(new Set(['opt0']))).toBeUndefined()
+    expect(param.decode(undefined)).toEqual(new Set(['opt0']))
+    expect(param.encode(new Set())).toBe('')
+    expect(param.decode('')).toEqual(new Set())
+    expect(flagsParam(all).encode(new Set())).toBeUndefined()
+  })
+
+  it('supports codes, separators, and alphabets', () => {
+    const param = flagsParam(['Alpha', 'Beta', 'Gamma'] as const, { codes: { Alpha: 'a', Beta: 'b', Gamma: 'g' }, separator: '.' })
+    expect(param.encode(new Set(['Alpha']))).toBe('a')
+    expect(param.encode(new Set(['Gamma', 'Alpha']))).toBe('~o')
+    expect(param.decode('g.a')).toEqual(new Set(['Alpha', 'Gamma']))
+
+    const radix = flagsParam(all, { alphabet: 'base62' })
+    const set = new Set(all.filter((_, i) => i % 3 === 0))
+    expect(radix.decode(radix.encode(set))).toEqual(set)
+  })
+
+  it('ignores unknown members and falls back on invalid bitsets', () => {
+    const param = flagsParam(all, { default: ['opt5'] })
+    expect(param.decode('opt1,nope')).toEqual(new Set(['opt1']))
+    expect(param.decode('~!!')).toEqual(new Set(['opt5']))
+  })
+
+  it('validates codes', () => {
+    expect(() => flagsParam(['a,b'])).toThrow("code 'a,b'")
+    expect(() => flagsParam(['~a'])).toThrow("code '~a'")
+  })
+})
+
+describe('sortParam', () => {
+  const fields = ['date', 'name', 'size'] as const
+  const param = sortParam(fields, [{ field: 'date', dir: 'desc' }])
+
+  it('encodes fields with - for descending', () => {
+    expect(param.encode([{ field: 'date', dir: 'desc' }, { field: 'name', dir: 'asc' }])).toBe('-date,name')
+    expect(param.decode('-date,name')).toEqual([{ field: 'date', dir: 'desc' }, { field: 'name', dir: 'asc' }])
+    expect(param.decode('+size')).toEqual([{ field: 'size', dir: 'asc' }])
+    expect(param.decode(' size')).toEqual([{ field: 'size', dir: 'asc' }])
+  })
+
+  it('omits the default, and writes an empty sort as valueless', () => {
+    expect(param.encode([{ field: 'date', dir: 'desc' }])).toBeUndefined()
+    expect(param.decode(undefined)).toEqual([{ field: 'date', dir: 'desc' }])
+    expect(param.encode([])).toBe('')
+    expect(param.decode('')).toEqual([])
+  })
+
+  it('validates fields and dedupes', () => {
+    expect(param.decode('name,-bogus,-name,size')).toEqual([{ field: 'name', dir: 'asc' }, { field: 'size', dir: 'asc' }])
+    expect(param.encode([{ field: 'size', dir: 'asc' }, { field: 'size', dir: 'desc' }])).toBe('size')
+    expect(param.decode('bogus')).toEqual([{ field: 'date', dir: 'desc' }])
+  })
+
+  it('supports short codes and separators', () => {
+    const coded = sortParam(fields, [], { codes: { date: 'd', name: 'n', size: 's' }, separator: '.' })
+    expect(coded.encode([{ field: 'date', dir: 'desc' }, { field: 'name', dir: 'asc' }])).toBe('-d.n')
+    expect(coded.decode('s.-d')).toEqual([{ field: 'size', dir: 'asc' }, { field: 'date', dir: 'desc' }])
+    expect(coded.encode([])).toBeUndefined()
+  })
+
+  it('validates codes', () => {
+    expect(() => sortParam(['a,b'])).toThrow("code 'a,b'")
+    expect(() => sortParam(['-a'])).toThrow("code '-a'")
+  })
+})
+
+describe('dateParam', () => {
+  const init = new Date(2024, 0, 1)
+  const june28 = new Date(2024, 5, 28, 15, 30)
+
+  it('encodes local calendar day as ISO by default', () => {
+    const param = dateParam(init)
+    expect(param.encode(june28)).toBe('2024-06-28')
+    expect(param.decode('2024-06-28')).toEqual(new Date(2024, 5, 28))
+  })
+
+  it('omits dates on the default day', () => {
+    const param = dateParam(init)
+    expect(param.encode(new Date(2024, 0, 1, 23, 59))).toBeUndefined()
+    expect(param.decode(undefined)).toBe(init)
+    expect(param.decode('')).toBe(init)
+  })
+
+  it('supports compact encodings', () => {
+    expect(dateParam(init, { encoding: 'yyyymmdd' }).encode(june28)).toBe('20240628')
+    expect(dateParam(init, { encoding: 'yymmdd' }).encode(june28)).toBe('240628')
+    expect(dateParam(init, { encoding: 'yymmdd' }).decode('240628')).toEqual(new Date(2024, 5, 28))
+    expect(dateParam(init, { encoding: 'epoch36' }).encode(june28)).toBe('fcu')
+    expect(dateParam(init, { encoding: 'epoch36' }).decode('fcu')).toEqual(new Date(2024, 5, 28))
+  })
+
+  it('base64 packs days into few chars', () => {
+    const param = dateParam(init, { encoding: 'base64' })
+    const encoded = param.encode(june28)!
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]{3}$/)
+    expect(param.decode(encoded)).toEqual(new Date(2024, 5, 28))
+    // Negative day offsets (before 1970) roundtrip via zigzag
+    expect(param.decode(param.encode(new Date(1969, 11, 31)))).toEqual(new Date(1969, 11, 31))
+  })
+
+  it('uses UTC calendar days when asked', () => {
+    const param = dateParam(new Date(0), { timeZone: 'utc' })
+    expect(param.encode(new Date(Date.UTC(2024, 5, 28, 23, 59)))).toBe('2024-06-28')
+    expect(param.decode('2024-06-28')).toEqual(new Date(Date.UTC(2024, 5, 28)))
+    const epoch = dateParam(new Date(0), { encoding: 'epoch36', timeZone: 'utc' })
+    expect(epoch.decode('fcu')).toEqual(new Date(Date.UTC(2024, 5, 28)))
+  })
+
+  it('falls back to default on malformed input', () => {
+    const param = dateParam(init)
+    expect(param.decode('2024-13-01')).toBe(init)
+    expect(param.decode('2024-02-30')).toBe(init)
+    expect(param.decode('yesterday')).toBe(init)
+    expect(dateParam(init, { encoding: 'base64' }).decode('!!')).toBe(init)
+    expect(dateParam(init, { encoding: 'epoch36' }).decode('FCU')).toBe(init)
+  })
+
+  it('omits years outside yymmdd range', () => {
+    expect(dateParam(init, { encoding: 'yymmdd' }).encode(new Date(1999, 0, 1))).toBeUndefined()
+    expect(dateParam(init, { encoding: 'yymmdd' }).encode(new Date(2100, 0, 1))).toBeUndefined()
+    expect(optDateParam({ encoding: 'yymmdd' }).encode(new Date(1999, 0, 1))).toBeUndefined()
+
+    const param = dateParam(new Date(1999, 0, 1), { encoding: 'yymmdd' })
+    expect(param.encode(new Date(1999, 0, 1))).toBeUndefined()
+    expect(param.encode(new Date(2024, 5, 28))).toBe('240628')
+  })
+
+  it('ignores invalid dates on encode', () => {
+    expect(dateParam(init).encode(new Date(NaN))).toBeUndefined()
+  })
+})
+
+describe('optDateParam', () => {
+  it('encodes null as absent', () => {
+    const param = optDateParam()
+    expect(param.encode(null)).toBeUndefined()
+    expect(param.decode(undefined)).toBeNull()
+  })
+
+  it('encodes and decodes dates', () => {
+    const param = optDateParam({ encoding: 'yyyymmdd' })
+    expect(param.encode(new Date(2024, 5, 28))).toBe('20240628')
+    expect(param.decode('20240628')).toEqual(new Date(2024, 5, 28))
+    expect(param.decode('2024628')).toBeNull()
+  })
+})
+
+describe('dateTimeParam', () => {
+  const init = new Date(Date.UTC(2024, 0, 1))
+  const value = new Date(Date.UTC(2024, 5, 28, 15, 30, 0, 999))
+
+  it('encodes ISO UTC with Z', () => {
+    const param = dateTimeParam(init, { timeZone: 'utc' })
+    expect(param.encode(value)).toBe('2024-06-28T15:30:00Z')
+    expect(param.decode('2024-06-28T15:30:00Z')).toEqual(new Date(Date.UTC(2024, 5, 28, 15, 30)))
+    expect(param.decode('2024-06-28T15:30')).toEqual(new Date(Date.UTC(2024, 5, 28, 15, 30)))
+  })
+
+  it('encodes ISO local wall-clock time', () => {
+    const local = new Date(2024, 5, 28, 15, 30, 5)
+    const param = dateTimeParam(init)
+    expect(param.encode(local)).toBe('2024-06-28T15:30:05')
+    expect(param.decode('2024-06-28T15:30:05')).toEqual(local)
+    // Explicit Z is always UTC
+    expect(param.decode('2024-06-28T15:30:00Z')).toEqual(new Date(Date.UTC(2024, 5, 28, 15, 30)))
+  })
+
+  it('supports epoch encodings', () => {
+    const epoch36 = dateTimeParam(init, { encoding: 'epoch36' })
+    expect(epoch36.encode(value)).toBe('sfsr20')
+    expect(epoch36.decode('sfsr20')).toEqual(new Date(Date.UTC(2024, 5, 28, 15, 30)))
+
+    const base64 = dateTimeParam(init, { encoding: 'base64' })
+    const encoded = base64.encode(value)!
+    expect(encoded).toHaveLength(6)
+    expect(base64.decode(encoded)).toEqual(new Date(Date.UTC(2024, 5, 28, 15, 30)))
+  })
+
+  it('omits the default and falls back on malformed input', () => {
+    const param = dateTimeParam(init, { timeZone: 'utc' })
+    expect(param.encode(new Date(init.getTime() + 400))).toBeUndefined()
+    expect(param.decode('2024-06-28T25:00:00Z')).toBe(init)
+    expect(param.decode('2024-06-28')).toBe(init)
+  })
+})
+
+describe('timeRangeParam', () => {
+  const init: TimeRange = { start: { amount: -7, unit: 'd' }, end: null }
+  const param = timeRangeParam(init, { timeZone: 'utc' })
+  const utcDay = (m: number, d: number) => new Date(Date.UTC(2024, m - 1, d))
+
+  it('decodes relative and absolute forms', () => {
+    expect(param.decode('-3d')).toEqual({ start: { amount: -3, unit: 'd' }, end: null })
+    expect(param.decode('-12h')).toEqual({ start: { amount: -12, unit: 'h' }, end: null })
+    expect(param.decode('2024-01-01..2024-02-01')).toEqual({ start: utcDay(1, 1), end: utcDay(2, 1) })
+    expect(param.decode('2024-01-01..')).toEqual({ start: utcDay(1, 1), end: null })
+    expect(param.decode('..-1w')).toEqual({ start: null, end: { amount: -1, unit: 'w' } })
+    expect(param.decode('2024-01-01..-7d')).toEqual({ start: utcDay(1, 1), end: { amount: -7, unit: 'd' } })
+    expect(param.decode('2024-01-01T06:30:00Z..')).toEqual({ start: new Date(Date.UTC(2024, 0, 1, 6, 30)), end: null })
+  })
+
+  it('re-encodes without absolutizing relative endpoints', () => {
+    for (const str of ['-3d', '-12h', '2024-01-01..2024-02-01', '2024-01-01..', '..-1w', '2024-01-01..-7d', '-2w..+1d', '..']) {
+      expect(param.encode(param.decode(str))).toBe(str)
+    }
+    expect(param.encode({ start: new Date(Date.UTC(2024, 0, 1, 6, 30)), end: null })).toBe('2024-01-01T06:30:00Z..')
+  })
+
+  it('omits the default', () => {
+    expect(param.encode({ start: { amount: -7, unit: 'd' }, end: null })).toBeUndefined()
+    expect(param.decode(undefined)).toBe(init)
+    expect(param.decode('-7d')).toEqual(init)
+  })
+
+  it('falls back to default on malformed input', () => {
+    expect(param.decode('3d')).toBe(init)
+    expect(param.decode('-3y')).toBe(init)
+    expect(param.decode('2024-13-01..')).toBe(init)
+    expect(param.decode('a..b..c')).toBe(init)
+  })
+
+  it('resolves against an injectable clock', () => {
+    const now = new Date(Date.UTC(2024, 5, 28, 12))
+    expect(resolveTimeRange(param.decode('-3d'), now, 'utc')).toEqual({
+      start: new Date(Date.UTC(2024, 5, 25, 12)),
+      end: null,
+    })
+    expect(resolveTimeRange(param.decode('2024-01-01..-90m'), now, 'utc')).toEqual({
+      start: utcDay(1, 1),
+      end: new Date(Date.UTC(2024, 5, 28, 10, 30)),
+    })
+    expect(resolveTimeRange(param.decode('..-1w'), now, 'utc').end).toEqual(new Date(Date.UTC(2024, 5, 21, 12)))
+  })
+
+  it('uses local dates by default', () => {
+    const local = timeRangeParam(init)
+    expect(local.decode('2024-01-01..')).toEqual({ start: new Date(2024, 0, 1), end: null })
+    expect(local.encode({ start: new Date(2024, 0, 1), end: null })).toBe('2024-01-01..')
+  })
+})
+
 describe('roundtrip encoding', () => {
   it('boolParam roundtrips', () => {
     expect(boolParam.decode(boolParam.encode(true))).toBe(true)
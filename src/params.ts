@@ -3,6 +3,10 @@
  */
 
 import type { Encoded, Param } from './index.js'
+import { BitBuffer, decodeBuffer, encodeBuffer } from './float.js'
+import type { Alphabet } from './alphabet.js'
+import type { RadixAlphabet } from './radix.js'
+import { withDefault } from './combinators.js'
 
 /**
  * Optional string parameter.
@@ -43,14 +47,7 @@ export const boolParam: Param<boolean> = {
  * Omitted from URL when equal to default.
  */
 export function intParam(init: number): Param<number> {
-  return {
-    encode: (value) => value === init ? undefined : value.toString(),
-    decode: (encoded) => {
-      if (encoded === undefined || encoded === '') return init
-      const parsed = parseInt(encoded, 10)
-      return isNaN(parsed) ? init : parsed
-    },
-  }
+  return withDefault(optIntParam, init)
 }
 
 /**
@@ -269,3 +266,698 @@ export function codesParam<T extends string>(
     },
   }
 }
+
+/**
+ * Options for setParam
+ */
+export interface SetParamOptions<T extends string> {
+  /** Value when the param is missing; omitted from the URL (default: all values) */
+  default?: Iterable<T>
+  /** Short codes for values (default: the values themselves) */
+  codes?: CodeMap<T>
+  /**
+   * Delimiter between codes; `''` (the default) requires single-character codes
+   * @default ''
+   */
+  separator?: string
+  /**
+   * Allow delta encoding against the default (` x` adds, `-y` removes) when it's shorter
+   * than listing every member
+   * @default true
+   */
+  delta?: boolean
+}
+
+/**
+ * Set parameter with canonical (declaration-order) encoding, so equal sets always produce
+ * the same URL regardless of insertion order.
+ *
+ * Sets are written either as their members' codes, or as a delta against the default: a
+ * leading space (`+` in URLs) followed by added codes, then `-` and removed codes. The
+ * shorter form is used (delta on ties). Decoded sets are in canonical order; unknown codes
+ * are ignored.
+ *
+ * @param allValues - All possible values, in canonical order
+ *
+ * @example
+ * ```ts
+ * const devices = setParam(['g', 'b', 'r', 'k'], { default: ['g'] })
+ * // {'g'}           → (omitted)
+ * // {'g', 'b', 'r'} → ?d=+br  ("default plus b, r")
+ * // {'r', 'b'}      → ?d=br
+ * // {'k', 'g'}      → ?d=+k
+ * // {}              → ?d
+ * ```
+ */
+export function setParam<T extends string>(
+  allValues: readonly T[],
+  opts: SetParamOptions<T> = {},
+): Param<Set<T>> {
+  const { codes, separator = '', delta = true } = opts
+  const init = new Set(opts.default ?? allValues)
+  const valueToCode = new Map(codes ? normalizeCodeMap(codes) : allValues.map(v => [v, v]))
+  const codeToValue = new Map(Array.from(valueToCode, ([v, c]) => [c, v]))
+
+  for (const value of allValues) {
+    const code = valueToCode.get(value)
+    if (code === undefined) throw new Error(`setParam: no code for value '${value}'`)
+    if (!code || (separator === '' && code.length !== 1)) {
+      throw new Error(`setParam: code '${code}' must be a single character when separator is ''`)
+    }
+    if (delta && (code.startsWith(' ') || code.startsWith('+') || code.includes('-'))) {
+      throw new Error(`setParam: code '${code}' can't start with ' ' or '+', or contain '-', with delta encoding`)
+    }
+  }
+
+  const list = (values: Iterable<T>) => {
+    const members = new Set(values)
+    return allValues.filter(v => members.has(v)).map(v => valueToCode.get(v)!).join(separator)
+  }
+  const parse = (str: string): T[] => {
+    if (str === '') return []
+    const parts = separator ? str.split(separator) : str.split('')
+    return parts.map(c => codeToValue.get(c)).filter((v): v is T => v !== undefined)
+  }
+
+  const initEncoded = list(init)
+
+  return {
+    encode: (values) => {
+      const full = list(values)
+      if (full === initEncoded) return undefined
+      if (!delta) return full
+      const added = list([...values].filter(v => !init.has(v)))
+      const removed = list([...init].filter(v => !values.has(v)))
+      const diff = added ? ' ' + added + (removed ? '-' + removed : '') : '-' + removed
+      return diff.length <= full.length ? diff : full
+    },
+    decode: (encoded) => {
+      if (encoded === undefined) return new Set(init)
+      if (delta && (encoded.startsWith(' ') || encoded.startsWith('+') || encoded.startsWith('-'))) {
+        const body = encoded.startsWith('-') ? encoded : encoded.slice(1)
+        const dash = body.indexOf('-')
+        const added = parse(dash === -1 ? body : body.slice(0, dash))
+        const removed = new Set(dash === -1 ? [] : parse(body.slice(dash + 1)))
+        const members = new Set([...init, ...added].filter(v => !removed.has(v)))
+        return new Set(allValues.filter(v => members.has(v)))
+      }
+      const members = new Set(parse(encoded))
+      return new Set(allValues.filter(v => members.has(v)))
+    },
+  }
+}
+
+/**
+ * Options for flagsParam
+ */
+export interface FlagsParamOptions<T extends string> {
+  /** Value when the param is missing; omitted from the URL (default: no flags) */
+  default?: Iterable<T>
+  /** Short codes for the listed form (default: the values themselves) */
+  codes?: CodeMap<T>
+  /**
+   * Delimiter between listed members
+   * @default ','
+   */
+  separator?: string
+  /**
+   * Alphabet for the bitset form (see `encodeBuffer`)
+   * @default 'rfc4648'
+   */
+  alphabet?: Alphabet | RadixAlphabet
+}
+
+/** Prefix marking the bitset form of flagsParam */
+const BITSET_PREFIX = '~'
+
+/**
+ * Flag set parameter for large option lists, written either as listed members (`red,blue`)
+ * or as a bitset (`~` then one bit per value in `allValues` order, packed via `BitBuffer`,
+ * ≈6 values per base64 character), whichever is shorter (listed on ties).
+ *
+ * Trailing unset bits are trimmed, so appending values to `allValues` keeps existing URLs
+ * valid; bits beyond `allValues` (from a newer list) and unknown members are ignored.
+ * Decoded sets are in `allValues` order.
+ *
+ * @example
+ * ```ts
+ * const layers = flagsParam(ALL_LAYERS)  // e.g. 100 layer names
+ * // Set{'roads'}          → ?l=roads
+ * // 40 layers             → ?l=~<17 chars>
+ * // Set{}                 → (omitted)
+ * ```
+ */
+export function flagsParam<T extends string>(
+  allValues: readonly T[],
+  opts: FlagsParamOptions<T> = {},
+): Param<Set<T>> {
+  const { codes, separator = ',', alphabet } = opts
+  const init = new Set(opts.default ?? [])
+  const valueToCode = new Map(codes ? normalizeCodeMap(codes) : allValues.map(v => [v, v]))
+  const codeToValue = new Map(Array.from(valueToCode, ([v, c]) => [c, v]))
+
+  for (const value of allValues) {
+    const code = valueToCode.get(value)
+    if (!code || code.startsWith(BITSET_PREFIX) || code.includes(separator)) {
+      throw new Error(`flagsParam: code '${code}' for '${value}' must be non-empty, without '${separator}' or a leading '${BITSET_PREFIX}'`)
+    }
+  }
+
+  const encodeFlags = (values: Set<T>): string => {
+    const listed = allValues.filter(v => values.has(v)).map(v => valueToCode.get(v)!).join(separator)
+    const last = allValues.reduce((max, v, i) => values.has(v) ? i : max, -1)
+    if (last === -1) return listed
+    const buf = new BitBuffer()
+    for (let i = 0; i <= last; i++) buf.encodeInt(values.has(allValues[i]) ? 1 : 0, 1)
+    const bitset = BITSET_PREFIX + encodeBuffer(buf, alphabet)
+    return bitset.length < listed.length ? bitset : listed
+  }
+  const initEncoded = encodeFlags(init)
+
+  return {
+    encode: (values) => {
+      const encoded = encodeFlags(values)
+      return encoded === initEncoded ? undefined : encoded
+    },
+    decode: (encoded) => {
+      if (encoded === undefined) return new Set(init)
+      if (encoded === '') return new Set()
+      if (encoded.startsWith(BITSET_PREFIX)) {
+        try {
+          const buf = decodeBuffer(encoded.slice(BITSET_PREFIX.length), alphabet)
+          const numBits = Math.min(allValues.length, buf.end)
+          return new Set(allValues.slice(0, numBits).filter(() => buf.decodeInt(1) === 1))
+        } catch {
+          return new Set(init)
+        }
+      }
+      const members = new Set(encoded.split(separator).map(c => codeToValue.get(c)))
+      return new Set(allValues.filter(v => members.has(v)))
+    },
+  }
+}
+
+/**
+ * Sort direction
+ */
+export type SortDirection = 'asc' | 'desc'
+
+/**
+ * One key of a (multi-key) sort
+ */
+export interface SortKey<T extends string> {
+  field: T
+  dir: SortDirection
+}
+
+/**
+ * Options for sortParam
+ */
+export interface SortParamOptions<T extends string> {
+  /** Short codes for field names (default: the names themselves) */
+  codes?: CodeMap<T>
+  /**
+   * Delimiter between sort keys
+   * @default ','
+   */
+  separator?: string
+}
+
+/**
+ * Multi-key sort parameter: an ordered list of fields, each prefixed with `-` when descending.
+ * Omitted from URL when equal to default.
+ *
+ * Unknown fields are dropped and repeated fields keep their first occurrence, on both encode
+ * and decode; input with no valid keys falls back to the default. A leading `+` (or space) is
+ * accepted as an explicit ascending marker.
+ *
+ * @param fields - Allowed field names
+ * @param init - Default sort
+ *
+ * @example
+ * ```ts
+ * const sort = sortParam(['date', 'name', 'size'], [{ field: 'date', dir: 'desc' }])
+ * const byDateThenName = [{ field: 'date', dir: 'desc' }, { field: 'name', dir: 'asc' }]
+ * // byDateThenName → ?s=-date,name
+ * // [date desc]    → (omitted)
+ * // []             → ?s
+ *
+ * sortParam(['date', 'name'], [], { codes: { date: 'd', name: 'n' } })
+ * // byDateThenName → ?s=-d,n
+ * ```
+ */
+export function sortParam<T extends string>(
+  fields: readonly T[],
+  init: SortKey<T>[] = [],
+  opts: SortParamOptions<T> = {},
+): Param<SortKey<T>[]> {
+  const { codes, separator = ',' } = opts
+  const valueToCode = new Map(codes ? normalizeCodeMap(codes) : fields.map(f => [f, f]))
+  const codeToValue = new Map(Array.from(valueToCode, ([v, c]) => [c, v]))
+  const allowed = new Set(fields)
+
+  for (const field of fields) {
+    const code = valueToCode.get(field)
+    if (!code || code.includes(separator) || /^[-+ ]/.test(code)) {
+      throw new Error(`sortParam: code '${code}' for '${field}' must be non-empty, without '${separator}' or a leading '-', '+', or space`)
+    }
+  }
+
+  // Drop unknown fields and repeats (first occurrence wins)
+  const normalize = (keys: SortKey<T>[]): SortKey<T>[] => {
+    const seen = new Set<T>()
+    return keys.filter(({ field }) => {
+      if (!allowed.has(field) || seen.has(field)) return false
+      seen.add(field)
+      return true
+    })
+  }
+
+  const encodeSort = (keys: SortKey<T>[]) =>
+    normalize(keys).map(({ field, dir }) => (dir === 'desc' ? '-' : '') + valueToCode.get(field)).join(separator)
+  const initEncoded = encodeSort(init)
+
+  return {
+    encode: (keys) => {
+      const encoded = encodeSort(keys)
+      return encoded === initEncoded ? undefined : encoded
+    },
+    decode: (encoded) => {
+      if (encoded === undefined) return init
+      if (encoded === '') return []
+      const keys = encoded.split(separator).flatMap((part): SortKey<T>[] => {
+        const desc = part.startsWith('-')
+        const code = /^[-+ ]/.test(part) ? part.slice(1) : part
+        const field = codeToValue.get(code)
+        return field === undefined ? [] : [{ field, dir: desc ? 'desc' : 'asc' }]
+      })
+      const normalized = normalize(keys)
+      return normalized.length ? normalized : init
+    },
+  }
+}
+
+/**
+ * Date encodings:
+ * - `'iso'`: `2024-06-28`
+ * - `'yyyymmdd'`: `20240628`
+ * - `'yymmdd'`: `240628` (years 2000–2099; dates outside that range are omitted from the URL)
+ * - `'epoch36'`: days since 1970-01-01 in base 36 (`fcu`)
+ * - `'base64'`: days since 1970-01-01, zigzag-packed into the fewest base64 chars (`Jt8`)
+ */
+export type DateEncoding = 'iso' | 'yyyymmdd' | 'yymmdd' | 'epoch36' | 'base64'
+
+/**
+ * Datetime encodings (second precision):
+ * - `'iso'`: `2024-06-28T15:30:00` (local) or `2024-06-28T15:30:00Z` (UTC)
+ * - `'epoch36'`: seconds since the Unix epoch in base 36 (`sfsr20`)
+ * - `'base64'`: seconds since the Unix epoch, zigzag-packed into the fewest base64 chars
+ */
+export type DateTimeEncoding = 'iso' | 'epoch36' | 'base64'
+
+/**
+ * Which clock calendar fields are read from and written to:
+ * the browser's local time zone, or UTC
+ */
+export type DateTimeZone = 'local' | 'utc'
+
+/**
+ * Options for dateParam / optDateParam
+ */
+export interface DateParamOptions {
+  /** @default 'iso' */
+  encoding?: DateEncoding
+  /**
+   * Time zone whose calendar day is encoded, and in which decoded dates are midnight
+   * @default 'local'
+   */
+  timeZone?: DateTimeZone
+}
+
+/**
+ * Options for dateTimeParam
+ */
+export interface DateTimeParamOptions {
+  /** @default 'iso' */
+  encoding?: DateTimeEncoding
+  /**
+   * Time zone for `'iso'` wall-clock times (epoch encodings are zone-independent).
+   * Decoding an ISO time with a trailing `Z` always reads it as UTC.
+   * @default 'local'
+   */
+  timeZone?: DateTimeZone
+}
+
+const DAY_MS = 86_400_000
+
+const pad = (n: number, width: number) => String(n).padStart(width, '0')
+
+/**
+ * Calendar day (month 1-12) of a date in the given time zone
+ */
+function toDay(date: Date, timeZone: DateTimeZone): { y: number; m: number; d: number } {
+  return timeZone === 'utc'
+    ? { y: date.getUTCFullYear(), m: date.getUTCMonth() + 1, d: date.getUTCDate() }
+    : { y: date.getFullYear(), m: date.getMonth() + 1, d: date.getDate() }
+}
+
+/**
+ * Midnight of a calendar day in the given time zone, or null if the day doesn't exist
+ */
+function fromDay(y: number, m: number, d: number, timeZone: DateTimeZone): Date | null {
+  const utc = new Date(Date.UTC(y, m - 1, d))
+  utc.setUTCFullYear(y) // Date.UTC maps years 0-99 to 1900-1999
+  if (utc.getUTCMonth() !== m - 1 || utc.getUTCDate() !== d) return null
+  if (timeZone === 'utc') return utc
+  const local = new Date(y, m - 1, d)
+  local.setFullYear(y)
+  return local
+}
+
+/**
+ * Signed integer in base 36 (`-` prefix for negatives)
+ */
+function toBase36(n: number): string {
+  return n < 0 ? `-${(-n).toString(36)}` : n.toString(36)
+}
+
+function fromBase36(str: string): number | null {
+  if (!/^-?[0-9a-z]+$/.test(str)) return null
+  const n = parseInt(str, 36)
+  return Number.isSafeInteger(n) ? n : null
+}
+
+/**
+ * Signed integer, zigzag-encoded into the fewest whole base64 chars
+ */
+function toBase64Int(n: number): string {
+  const zigzag = n < 0 ? -2n * BigInt(n) - 1n : 2n * BigInt(n)
+  const numChars = Math.max(1, Math.ceil(zigzag.toString(2).length / 6))
+  return new BitBuffer().encodeBigInt(zigzag, numChars * 6).toBase64()
+}
+
+function fromBase64Int(str: string): number | null {
+  if (!/^[A-Za-z0-9_-]{1,9}$/.test(str)) return null // at most 54 bits
+  const zigzag = BitBuffer.fromBase64(str).decodeBigInt(str.length * 6)
+  const n = Number(zigzag & 1n ? -(zigzag + 1n) / 2n : zigzag / 2n)
+  return Number.isSafeInteger(n) ? n : null
+}
+
+/** `undefined` for days `encoding` can't represent (years outside 2000–2099 for `'yymmdd'`) */
+function encodeDate(date: Date, encoding: DateEncoding, timeZone: DateTimeZone): string | undefined {
+  const { y, m, d } = toDay(date, timeZone)
+  switch (encoding) {
+    case 'iso': return `${pad(y, 4)}-${pad(m, 2)}-${pad(d, 2)}`
+    case 'yyyymmdd': return `${pad(y, 4)}${pad(m, 2)}${pad(d, 2)}`
+    case 'yymmdd':
+      if (y < 2000 || y > 2099) return undefined
+      return `${pad(y % 100, 2)}${pad(m, 2)}${pad(d, 2)}`
+    case 'epoch36': return toBase36(Date.UTC(y, m - 1, d) / DAY_MS)
+    case 'base64': return toBase64Int(Date.UTC(y, m - 1, d) / DAY_MS)
+  }
+}
+
+function decodeDate(encoded: string, encoding: DateEncoding, timeZone: DateTimeZone): Date | null {
+  let match: RegExpMatchArray | null
+  switch (encoding) {
+    case 'iso':
+      match = encoded.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+      return match && fromDay(+match[1], +match[2], +match[3], timeZone)
+    case 'yyyymmdd':
+      match = encoded.match(/^(\d{4})(\d{2})(\d{2})$/)
+      return match && fromDay(+match[1], +match[2], +match[3], timeZone)
+    case 'yymmdd':
+      match = encoded.match(/^(\d{2})(\d{2})(\d{2})$/)
+      return match && fromDay(2000 + +match[1], +match[2], +match[3], timeZone)
+    case 'epoch36':
+    case 'base64': {
+      const days = encoding === 'epoch36' ? fromBase36(encoded) : fromBase64Int(encoded)
+      if (days === null) return null
+      const utc = new Date(days * DAY_MS)
+      if (isNaN(utc.getTime())) return null
+      return fromDay(utc.getUTCFullYear(), utc.getUTCMonth() + 1, utc.getUTCDate(), timeZone)
+    }
+  }
+}
+
+function encodeDateTime(date: Date, encoding: DateTimeEncoding, timeZone: DateTimeZone): string {
+  const seconds = Math.floor(date.getTime() / 1000)
+  switch (encoding) {
+    case 'iso': {
+      const { y, m, d } = toDay(date, timeZone)
+      const utc = timeZone === 'utc'
+      const hh = utc ? date.getUTCHours() : date.getHours()
+      const mm = utc ? date.getUTCMinutes() : date.getMinutes()
+      const ss = utc ? date.getUTCSeconds() : date.getSeconds()
+      return `${pad(y, 4)}-${pad(m, 2)}-${pad(d, 2)}T${pad(hh, 2)}:${pad(mm, 2)}:${pad(ss, 2)}${utc ? 'Z' : ''}`
+    }
+    case 'epoch36': return toBase36(seconds)
+    case 'base64': return toBase64Int(seconds)
+  }
+}
+
+function decodeDateTime(encoded: string, encoding: DateTimeEncoding, timeZone: DateTimeZone): Date | null {
+  if (encoding === 'iso') {
+    const match = encoded.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?(Z)?$/)
+    if (!match) return null
+    const [y, m, d, hh, mm, ss = 0] = match.slice(1, 7).map(s => s === undefined ? 0 : +s)
+    if (hh > 23 || mm > 59 || ss > 59) return null
+    const day = fromDay(y, m, d, match[7] ? 'utc' : timeZone)
+    if (!day) return null
+    if (match[7] || timeZone === 'utc') {
+      return new Date(day.getTime() + ((hh * 60 + mm) * 60 + ss) * 1000)
+    }
+    day.setHours(hh, mm, ss)
+    return day
+  }
+  const seconds = encoding === 'epoch36' ? fromBase36(encoded) : fromBase64Int(encoded)
+  if (seconds === null) return null
+  const date = new Date(seconds * 1000)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Date (calendar day) parameter with default.
+ * Omitted from URL when on the same day as the default, or when the encoding can't represent the
+ * day (see `DateEncoding`); malformed values decode to the default.
+ * Decoded dates are midnight in the chosen time zone.
+ *
+ * @example
+ * dateParam(new Date(2024, 0, 1))                            // ?d=2024-06-28 (when set to June 28)
+ * dateParam(today, { encoding: 'yymmdd' })                   // ?d=240628
+ * dateParam(today, { encoding: 'epoch36', timeZone: 'utc' }) // ?d=fcu
+ */
+export function dateParam(init: Date, opts: DateParamOptions = {}): Param<Date> {
+  const { encoding = 'iso', timeZone = 'local' } = opts
+  const initEncoded = encodeDate(init, encoding, timeZone)
+  return {
+    encode: (value) => {
+      if (isNaN(value.getTime())) return undefined
+      const encoded = encodeDate(value, encoding, timeZone)
+      return encoded === initEncoded ? undefined : encoded
+    },
+    decode: (encoded) => {
+      if (encoded === undefined || encoded === '') return init
+      return decodeDate(encoded, encoding, timeZone) ?? init
+    },
+  }
+}
+
+/**
+ * Optional date (calendar day) parameter.
+ * - null → not present
+ * - Date → encoded day (see `dateParam`), or not present if the encoding can't represent it;
+ *   malformed values decode to null
+ */
+export function optDateParam(opts: DateParamOptions = {}): Param<Date | null> {
+  const { encoding = 'iso', timeZone = 'local' } = opts
+  return {
+    encode: (value) => {
+      if (value === null || isNaN(value.getTime())) return undefined
+      return encodeDate(value, encoding, timeZone)
+    },
+    decode: (encoded) => {
+      if (encoded === undefined || encoded === '') return null
+      return decodeDate(encoded, encoding, timeZone)
+    },
+  }
+}
+
+/**
+ * Datetime parameter with default, at second precision (milliseconds are dropped).
+ * Omitted from URL when equal to the default (to the second); malformed values decode to the default.
+ *
+ * @example
+ * dateTimeParam(start)                                     // ?t=2024-06-28T15:30:00
+ * dateTimeParam(start, { timeZone: 'utc' })                // ?t=2024-06-28T15:30:00Z
+ * dateTimeParam(start, { encoding: 'epoch36' })            // ?t=sfsr20
+ */
+export function dateTimeParam(init: Date, opts: DateTimeParamOptions = {}): Param<Date> {
+  const { encoding = 'iso', timeZone = 'local' } = opts
+  const initEncoded = encodeDateTime(init, encoding, timeZone)
+  return {
+    encode: (value) => {
+      if (isNaN(value.getTime())) return undefined
+      const encoded = encodeDateTime(value, encoding, timeZone)
+      return encoded === initEncoded ? undefined : encoded
+    },
+    decode: (encoded) => {
+      if (encoded === undefined || encoded === '') return init
+      return decodeDateTime(encoded, encoding, timeZone) ?? init
+    },
+  }
+}
+
+/**
+ * Units for relative times: seconds, minutes, hours, days, weeks
+ */
+export type TimeUnit = 's' | 'm' | 'h' | 'd' | 'w'
+
+/**
+ * Offset from "now", e.g. `{ amount: -3, unit: 'd' }` for 3 days ago
+ */
+export interface RelativeTime {
+  amount: number
+  unit: TimeUnit
+}
+
+/**
+ * Range endpoint: an absolute time, a time relative to "now", or null (unbounded)
+ */
+export type TimeEndpoint = Date | RelativeTime | null
+
+/**
+ * Time window whose endpoints may be absolute or relative.
+ * Relative endpoints stay relative until resolved with `resolveTimeRange`.
+ */
+export interface TimeRange {
+  start: TimeEndpoint
+  end: TimeEndpoint
+}
+
+/**
+ * Options for timeRangeParam
+ */
+export interface TimeRangeParamOptions {
+  /**
+   * Time zone for absolute endpoints, and for day/week arithmetic in `resolveTimeRange`
+   * @default 'local'
+   */
+  timeZone?: DateTimeZone
+}
+
+const UNIT_MS = { s: 1000, m: 60_000, h: 3_600_000 } as const
+
+function encodeTimeEndpoint(endpoint: TimeEndpoint, timeZone: DateTimeZone): string {
+  if (endpoint === null) return ''
+  if (endpoint instanceof Date) {
+    const day = encodeDate(endpoint, 'iso', timeZone)!
+    const midnight = decodeDate(day, 'iso', timeZone)
+    return midnight?.getTime() === endpoint.getTime() ? day : encodeDateTime(endpoint, 'iso', timeZone)
+  }
+  const { amount, unit } = endpoint
+  return `${amount < 0 ? '-' : '+'}${Math.abs(amount)}${unit}`
+}
+
+/**
+ * Parse one endpoint; undefined if malformed (null means unbounded)
+ */
+function decodeTimeEndpoint(str: string, timeZone: DateTimeZone): TimeEndpoint | undefined {
+  if (str === '') return null
+  const match = str.match(/^([+-])(\d+)([smhdw])$/)
+  if (match) {
+    const amount = parseInt(match[2], 10)
+    if (!Number.isSafeInteger(amount)) return undefined
+    return { amount: match[1] === '-' ? -amount : amount, unit: match[3] as TimeUnit }
+  }
+  return decodeDate(str, 'iso', timeZone) ?? decodeDateTime(str, 'iso', timeZone) ?? undefined
+}
+
+function encodeTimeRange({ start, end }: TimeRange, timeZone: DateTimeZone): string {
+  const startStr = encodeTimeEndpoint(start, timeZone)
+  // A lone relative start ("last 3 days") gets the short form
+  if (end === null && start !== null && !(start instanceof Date)) return startStr
+  return `${startStr}..${encodeTimeEndpoint(end, timeZone)}`
+}
+
+function decodeTimeRange(str: string, timeZone: DateTimeZone): TimeRange | null {
+  const parts = str.split('..')
+  if (parts.length > 2) return null
+  const start = decodeTimeEndpoint(parts[0], timeZone)
+  const end = parts.length === 2 ? decodeTimeEndpoint(parts[1], timeZone) : null
+  if (start === undefined || end === undefined) return null
+  return { start, end }
+}
+
+/**
+ * Resolve one endpoint against `now`. Seconds, minutes, and hours are fixed durations;
+ * days and weeks are calendar days in `timeZone` (so "-1d" keeps the wall-clock time across DST).
+ */
+export function resolveTimeEndpoint(
+  endpoint: TimeEndpoint,
+  now: Date = new Date(),
+  timeZone: DateTimeZone = 'local',
+): Date | null {
+  if (endpoint === null) return null
+  if (endpoint instanceof Date) return endpoint
+  const { amount, unit } = endpoint
+  if (unit === 's' || unit === 'm' || unit === 'h') {
+    return new Date(now.getTime() + amount * UNIT_MS[unit])
+  }
+  const days = unit === 'w' ? amount * 7 : amount
+  const date = new Date(now.getTime())
+  if (timeZone === 'utc') {
+    date.setUTCDate(date.getUTCDate() + days)
+  } else {
+    date.setDate(date.getDate() + days)
+  }
+  return date
+}
+
+/**
+ * Resolve a range's relative endpoints against a clock; unbounded endpoints stay null
+ *
+ * @example
+ * const range = timeRangeParam(...).decode('-3d')       // { start: { amount: -3, unit: 'd' }, end: null }
+ * resolveTimeRange(range, new Date('2024-06-28T12:00Z')) // { start: 2024-06-25T12:00Z, end: null }
+ */
+export function resolveTimeRange(
+  range: TimeRange,
+  now: Date = new Date(),
+  timeZone: DateTimeZone = 'local',
+): { start: Date | null; end: Date | null } {
+  return {
+    start: resolveTimeEndpoint(range.start, now, timeZone),
+    end: resolveTimeEndpoint(range.end, now, timeZone),
+  }
+}
+
+/**
+ * Time range parameter with absolute and/or relative endpoints.
+ * Relative endpoints are kept as-is (never absolutized), so a shared "-3d" link always
+ * means "the last 3 days". Omitted from URL when equal to the default; malformed values
+ * decode to the default.
+ *
+ * @example
+ * const param = timeRangeParam({ start: { amount: -7, unit: 'd' }, end: null })
+ * // ?t=-3d                   → { start: -3d, end: null }
+ * // ?t=-12h                  → { start: -12h, end: null }
+ * // ?t=2024-01-01..2024-02-01 → { start: Date, end: Date }
+ * // ?t=2024-01-01..          → { start: Date, end: null }
+ * // ?t=..-1w                 → { start: null, end: -1w }
+ * // ?t=2024-01-01..-7d       → { start: Date, end: -7d }
+ */
+export function timeRangeParam(init: TimeRange, opts: TimeRangeParamOptions = {}): Param<TimeRange> {
+  const { timeZone = 'local' } = opts
+  const initEncoded = encodeTimeRange(init, timeZone)
+  return {
+    encode: (value) => {
+      const encoded = encodeTimeRange(value, timeZone)
+      return encoded === initEncoded ? undefined : encoded
+    },
+    decode: (encoded) => {
+      if (encoded === undefined || encoded === '') return init
+      return decodeTimeRange(encoded, timeZone) ?? init
+    },
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * @vitest-environment happy-dom
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import type { ReactNode } from 'react'
+import { createPathStrategy } from './path.js'
+import { UrlStateProvider } from './context.js'
+import { useUrlState, useUrlStates } from './useUrlState.js'
+import { boolParam, intParam, stringParam } from './index.js'
+
+beforeEach(() => {
+  window.history.replaceState({}, '', '/')
+})
+
+describe('createPathStrategy (pairs)', () => {
+  const strategy = createPathStrategy({ base: '/relax' })
+
+  it('parses key/value pairs under base', () => {
+    window.history.replaceState({}, '', '/relax/at/2003205/from/20240628/to/20240629/rooms/1?x=1')
+    expect(strategy.getRaw()).toBe('/relax/at/2003205/from/20240628/to/20240629/rooms/1')
+    expect(strategy.parse()).toEqual({
+      at: ['2003205'],
+      from: ['20240628'],
+      to: ['20240629'],
+      rooms: ['1'],
+    })
+  })
+
+  it('returns no params outside base', () => {
+    window.history.replaceState({}, '', '/relaxed/a/1')
+    expect(strategy.parse()).toEqual({})
+    window.history.replaceState({}, '', '/relax')
+    expect(strategy.parse()).toEqual({})
+  })
+
+  it('handles repeated keys, valueless params, and escaping', () => {
+    const url = new URL('http://example.com/relax/t/a/t/b%2Fc/z/')
+    expect(strategy.parseUrl!(url)).toEqual({ t: ['a', 'b/c'], z: [''] })
+
+    const built = strategy.buildUrl(new URL('http://example.com/relax?q=1#h'), {
+      t: ['a', 'b/c'],
+      z: [''],
+    })
+    expect(built).toBe('http://example.com/relax/t/a/t/b%2Fc/z/?q=1#h')
+  })
+
+  it('builds base path when empty', () => {
+    expect(strategy.buildUrl(new URL('http://example.com/relax/a/1'), {})).toBe('http://example.com/relax')
+    expect(createPathStrategy().buildUrl(new URL('http://example.com/a/1'), {})).toBe('http://example.com/')
+  })
+})
+
+describe('createPathStrategy (template)', () => {
+  const strategy = createPathStrategy({ base: '/weather', template: '/:city/:date' })
+
+  it('parses positional segments', () => {
+    expect(strategy.parseUrl!(new URL('http://x/weather/nyc/20240628'))).toEqual({
+      city: ['nyc'],
+      date: ['20240628'],
+    })
+    expect(strategy.parseUrl!(new URL('http://x/weather/nyc'))).toEqual({ city: ['nyc'] })
+    expect(strategy.parseUrl!(new URL('http://x/weather//20240628'))).toEqual({ date: ['20240628'] })
+  })
+
+  it('trims trailing absent params', () => {
+    const base = new URL('http://x/weather')
+    expect(strategy.buildUrl(new URL(base), { city: ['nyc'] })).toBe('http://x/weather/nyc')
+    expect(strategy.buildUrl(new URL(base), { date: ['20240628'] })).toBe('http://x/weather//20240628')
+    expect(strategy.buildUrl(new URL(base), {})).toBe('http://x/weather')
+  })
+
+  it('requires literal segments to match', () => {
+    const fromTo = createPathStrategy({ template: '/from/:from/to/:to' })
+    expect(fromTo.parseUrl!(new URL('http://x/from/1/to/2'))).toEqual({ from: ['1'], to: ['2'] })
+    expect(fromTo.parseUrl!(new URL('http://x/since/1/to/2'))).toEqual({})
+    expect(fromTo.buildUrl(new URL('http://x/'), { from: ['1'] })).toBe('http://x/from/1')
+    expect(fromTo.buildUrl(new URL('http://x/'), { to: ['2'] })).toBe('http://x/from//to/2')
+  })
+
+  it('ignores keys not in template', () => {
+    expect(strategy.buildUrl(new URL('http://x/weather'), { city: ['nyc'], other: ['1'] }))
+      .toBe('http://x/weather/nyc')
+  })
+})
+
+describe('createPathStrategy with hooks', () => {
+  const strategy = createPathStrategy({ base: '/relax' })
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <UrlStateProvider strategy={strategy}>{children}</UrlStateProvider>
+  )
+
+  it('reads and writes path segments', async () => {
+    window.history.replaceState({}, '', '/relax/rooms/2?q=keep')
+    const { result } = renderHook(() => useUrlStates({
+      rooms: intParam(1),
+      from: stringParam(),
+      z: boolParam,
+    }), { wrapper })
+    expect(result.current.values).toEqual({ rooms: 2, from: undefined, z: false })
+
+    await act(async () => {
+      result.current.setValues({ rooms: 1, from: '20240628', z: true })
+    })
+    expect(window.location.pathname).toBe('/relax/from/20240628/z/')
+    expect(window.location.search).toBe('?q=keep')
+    expect(result.current.values).toEqual({ rooms: 1, from: '20240628', z: true })
+  })
+
+  it('reacts to navigation', async () => {
+    const { result } = renderHook(() => useUrlState('rooms', intParam(1)), { wrapper })
+    expect(result.current[0]).toBe(1)
+
+    await act(async () => {
+      window.history.pushState({}, '', '/relax/rooms/3')
+    })
+    expect(result.current[0]).toBe(3)
+  })
+
+  it('unsubscribes', () => {
+    const callback = vi.fn()
+    const unsubscribe = strategy.subscribe(callback)
+    window.history.replaceState({}, '', '/relax/rooms/4')
+    expect(callback).toHaveBeenCalledTimes(1)
+    unsubscribe()
+    window.history.replaceState({}, '', '/relax/rooms/5')
+    expect(callback).toHaveBeenCalledTimes(1)
+  })
+})
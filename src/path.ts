@@ -0,0 +1,161 @@
+/**
+ * Path-segment location strategy
+ *
+ * Stores params in `location.pathname` under a base path, either as `/key/value` pairs
+ * (`/from/20240628/to/20240629/rooms/1`) or positionally via a template (`/:city/:date`).
+ */
+
+import type { LocationStrategy, MultiEncoded } from './core.js'
+import { subscribeToLocation } from './core.js'
+
+/**
+ * Options for createPathStrategy
+ */
+export interface PathStrategyOptions {
+  /**
+   * Path prefix that params are stored under; paths outside it have no params
+   * @default '' (root)
+   */
+  base?: string
+  /**
+   * Positional template like `'/:city/:date'` or `'/from/:from/to/:to'`.
+   * `:name` segments hold param values, other segments are literals that must match.
+   * Without a template, params are stored as `/key/value` pairs (repeated keys allowed).
+   */
+  template?: string
+}
+
+/**
+ * Template segment: a param key or a literal
+ */
+type TemplateSegment = { param: string } | { literal: string }
+
+function splitSegments(path: string): string[] {
+  return path.split('/').slice(1)
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+function encodeSegment(value: string): string {
+  return encodeURIComponent(value)
+}
+
+/**
+ * Create a LocationStrategy that stores params in path segments under `base`.
+ *
+ * In pairs mode (no template), each value is a `/key/value` pair; valueless params
+ * (e.g. `boolParam` true) have an empty value segment (`/z/`).
+ *
+ * In template mode, each `:name` segment holds the first value of that param. Empty segments
+ * decode as absent, so template params can't distinguish absent from valueless. Trailing
+ * absent params (and literals between them) are trimmed.
+ *
+ * @example
+ * ```ts
+ * // /relax/from/20240628/to/20240629/rooms/1
+ * const pairs = createPathStrategy({ base: '/relax' })
+ *
+ * // /weather/nyc/20240628
+ * const positional = createPathStrategy({ base: '/weather', template: '/:city/:date' })
+ *
+ * <UrlStateProvider strategy={positional}>...</UrlStateProvider>
+ * ```
+ */
+export function createPathStrategy(opts: PathStrategyOptions = {}): LocationStrategy {
+  const base = (opts.base ?? '').replace(/\/+$/, '')
+  const template: TemplateSegment[] | null = opts.template === undefined
+    ? null
+    : splitSegments(opts.template).map(segment =>
+      segment.startsWith(':') ? { param: segment.slice(1) } : { literal: segment }
+    )
+
+  /** Path segments after `base`, or null if the path is outside `base` */
+  function paramSegments(pathname: string): string[] | null {
+    if (pathname === base || pathname === `${base}/`) return []
+    if (!pathname.startsWith(`${base}/`)) return null
+    return splitSegments(pathname.slice(base.length))
+  }
+
+  function parsePath(pathname: string): Record<string, MultiEncoded> {
+    const segments = paramSegments(pathname)
+    const result: Record<string, MultiEncoded> = {}
+    if (!segments) return result
+
+    if (template) {
+      for (let i = 0; i < template.length && i < segments.length; i++) {
+        const part = template[i]
+        if ('literal' in part) {
+          if (segments[i] !== part.literal) return {}
+        } else if (segments[i] !== '') {
+          result[part.param] = [decodeSegment(segments[i])]
+        }
+      }
+      return result
+    }
+
+    for (let i = 0; i + 1 < segments.length; i += 2) {
+      const key = decodeSegment(segments[i])
+      if (key === '') continue
+      ;(result[key] ??= []).push(decodeSegment(segments[i + 1]))
+    }
+    return result
+  }
+
+  function buildPath(params: Record<string, MultiEncoded>): string {
+    const segments: string[] = []
+
+    if (template) {
+      // Keep template segments up to the last present param
+      let last = -1
+      template.forEach((part, i) => {
+        if ('param' in part && params[part.param]?.length) last = i
+      })
+      for (let i = 0; i <= last; i++) {
+        const part = template[i]
+        segments.push('literal' in part
+          ? part.literal
+          : encodeSegment(params[part.param]?.[0] ?? ''))
+      }
+    } else {
+      for (const [key, values] of Object.entries(params)) {
+        for (const value of values) {
+          segments.push(encodeSegment(key), encodeSegment(value))
+        }
+      }
+    }
+
+    if (segments.length === 0) return base || '/'
+    return `${base}/${segments.join('/')}`
+  }
+
+  return {
+    getRaw(): string {
+      if (typeof window === 'undefined') return ''
+      return window.location.pathname
+    },
+
+    parse(): Record<string, MultiEncoded> {
+      if (typeof window === 'undefined') return {}
+      return parsePath(window.location.pathname)
+    },
+
+    parseUrl(url: URL): Record<string, MultiEncoded> {
+      return parsePath(url.pathname)
+    },
+
+    buildUrl(url: URL, params: Record<string, MultiEncoded>): string {
+      url.pathname = buildPath(params)
+      return url.toString()
+    },
+
+    subscribe(callback: () => void): () => void {
+      return subscribeToLocation(callback)
+    },
+  }
+}
@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest'
+import {
+  RADIX_ALPHABETS,
+  validateRadixAlphabet,
+  resolveRadixAlphabet,
+  isBase64Alphabet,
+  encodeRadix,
+  decodeRadix,
+  radixEncode,
+  radixDecode,
+} from './radix'
+import { ALPHABETS, binaryParam, encodeBytes, decodeBytes } from './binary'
+import { BitBuffer, floatParam, pointParam } from './float'
+import { serializeMultiParams } from './core'
+
+describe('radix alphabets', () => {
+  it('presets have expected sizes, and are valid and ASCII-ordered', () => {
+    expect(RADIX_ALPHABETS.hash).toHaveLength(79)
+    expect(RADIX_ALPHABETS.query).toHaveLength(78)
+    expect(RADIX_ALPHABETS.base62).toHaveLength(62)
+    for (const alphabet of Object.values(RADIX_ALPHABETS)) {
+      expect(() => validateRadixAlphabet(alphabet)).not.toThrow()
+      expect([...alphabet].sort().join('')).toBe(alphabet)
+    }
+  })
+
+  it('hash preset is the RFC 3986 fragment characters minus & and +', () => {
+    const unreserved = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~'
+    const fragment = [...unreserved, ..."!$&'()*+,;=", ...':@/?']
+    expect(fragment).toHaveLength(81)
+    expect(fragment.filter(c => c !== '&' && c !== '+').sort().join('')).toBe(RADIX_ALPHABETS.hash)
+  })
+
+  it('presets survive minimal URL encoding unescaped', () => {
+    expect(serializeMultiParams({ v: [RADIX_ALPHABETS.hash] }, 'minimal')).toBe(`v=${RADIX_ALPHABETS.hash}`)
+  })
+
+  it('validates length', () => {
+    expect(() => validateRadixAlphabet('0')).toThrow('2-90 characters, got 1')
+    expect(() => validateRadixAlphabet('01')).not.toThrow()
+    const all = [...Array(95)].map((_, i) => String.fromCharCode(0x20 + i)).filter(c => !' #%&+'.includes(c)).join('')
+    expect(all).toHaveLength(90)
+    expect(() => validateRadixAlphabet(all)).not.toThrow()
+    expect(() => validateRadixAlphabet(all + 'é')).toThrow('2-90 characters, got 91')
+  })
+
+  it('rejects duplicates and unsafe characters', () => {
+    expect(() => validateRadixAlphabet('abca')).toThrow("Duplicate character in alphabet: 'a'")
+    expect(() => validateRadixAlphabet('ab&+ c')).toThrow("non-URL-safe characters: '&', '+', ' '")
+    expect(() => validateRadixAlphabet('ab#%')).toThrow("non-URL-safe characters: '#', '%'")
+  })
+
+  it('resolves presets and custom strings', () => {
+    expect(resolveRadixAlphabet('hash')).toBe(RADIX_ALPHABETS.hash)
+    expect(resolveRadixAlphabet('rfc4648')).toBe(ALPHABETS.rfc4648)
+    expect(resolveRadixAlphabet('0123456789')).toBe('0123456789')
+    expect(() => resolveRadixAlphabet('00')).toThrow()
+    // Inherited Object properties aren't presets
+    expect(() => resolveRadixAlphabet('constructor')).toThrow("Duplicate character in alphabet: 'c'")
+    expect(() => resolveRadixAlphabet('toString')).toThrow("Duplicate character in alphabet: 't'")
+  })
+
+  it('distinguishes base64 from radix alphabets', () => {
+    expect(isBase64Alphabet('rfc4648')).toBe(true)
+    expect(isBase64Alphabet('sortable')).toBe(true)
+    expect(isBase64Alphabet(ALPHABETS.sortable)).toBe(true)
+    expect(isBase64Alphabet('hash')).toBe(false)
+    expect(isBase64Alphabet('base62')).toBe(false)
+    expect(isBase64Alphabet('0123456789')).toBe(false)
+    expect(isBase64Alphabet('constructor')).toBe(false)
+  })
+})
+
+describe('encodeRadix / decodeRadix', () => {
+  it('encodes in base 10', () => {
+    // 8 bits need 3 decimal digits (1000 >= 256), which hold 9 bits: left-aligned with 1 pad bit
+    expect(encodeRadix(255n, 8, '0123456789')).toBe('510')
+    expect(decodeRadix('510', '0123456789')).toEqual({ value: 510n, numBits: 9 })
+  })
+
+  it('uses fewest digits', () => {
+    expect(encodeRadix(0n, 0, 'hash')).toBe('')
+    expect(encodeRadix(1n, 1, 'hash')).toHaveLength(1)
+    expect(encodeRadix(0n, 6, 'hash')).toHaveLength(1)
+    expect(encodeRadix(0n, 7, 'hash')).toHaveLength(2)
+    // 64 bits: base64 needs 11 chars, base79 needs 11 (79^10 < 2^64)
+    expect(encodeRadix(0n, 64, 'hash')).toHaveLength(11)
+    // 128 bits: base64 needs 22, base79 needs 21
+    expect(encodeRadix(0n, 128, 'hash')).toHaveLength(21)
+  })
+
+  it('matches toBase64 for 64-char alphabets', () => {
+    const buf = new BitBuffer()
+    buf.encodeInt(42, 8).encodeInt(12345, 17).encodeBigInt(0xdeadbeefn, 32)
+    const bits = buf.end
+    const base64 = buf.toBase64()
+
+    const buf2 = new BitBuffer()
+    buf2.encodeInt(42, 8).encodeInt(12345, 17).encodeBigInt(0xdeadbeefn, 32)
+    buf2.seek(0)
+    expect(encodeRadix(buf2.decodeBigInt(bits), bits, ALPHABETS.rfc4648)).toBe(base64)
+  })
+
+  it('rejects invalid characters and overflow', () => {
+    expect(() => decodeRadix('0a', '0123456789')).toThrow("Invalid radix-10 character: 'a'")
+    // 3 decimal digits hold 9 bits (< 512)
+    expect(() => decodeRadix('999', '0123456789')).toThrow('value exceeds 9 bits')
+  })
+})
+
+describe('radixEncode / radixDecode', () => {
+  const cases = [
+    new Uint8Array([]),
+    new Uint8Array([0]),
+    new Uint8Array([255]),
+    new Uint8Array([0, 0, 1]),
+    new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16]),
+    new Uint8Array(Array.from({ length: 100 }, (_, i) => (i * 37) & 0xff)),
+  ]
+
+  for (const alphabet of ['hash', 'query', 'base62', '01', '0123456789', 'rfc4648'] as const) {
+    it(`roundtrips with ${alphabet}`, () => {
+      for (const bytes of cases) {
+        expect(radixDecode(radixEncode(bytes, alphabet), alphabet)).toEqual(bytes)
+      }
+    })
+  }
+
+  it('preserves leading zero bytes', () => {
+    const encoded = radixEncode(new Uint8Array([0, 0, 0]), 'hash')
+    expect(encoded).toBe('!!!!')
+    expect(radixDecode(encoded, 'hash')).toEqual(new Uint8Array([0, 0, 0]))
+  })
+
+  it('encodeBytes / decodeBytes dispatch on alphabet', () => {
+    const bytes = new Uint8Array([1, 2, 3, 4, 5])
+    expect(encodeBytes(bytes)).toBe('AQIDBAU')
+    expect(encodeBytes(bytes, 'hash')).toBe(radixEncode(bytes, 'hash'))
+    expect(decodeBytes(encodeBytes(bytes, 'base62'), 'base62')).toEqual(bytes)
+  })
+})
+
+describe('BitBuffer radix', () => {
+  it('roundtrips arbitrary bit widths', () => {
+    const buf = new BitBuffer()
+    buf.encodeInt(5, 3).encodeInt(1000, 10).encodeBigInt(123456789012345n, 50)
+    const encoded = buf.toRadix('hash')
+
+    const decoded = BitBuffer.fromRadix(encoded, 'hash')
+    expect(decoded.decodeInt(3)).toBe(5)
+    expect(decoded.decodeInt(10)).toBe(1000)
+    expect(decoded.decodeBigInt(50)).toBe(123456789012345n)
+  })
+
+  it('is shorter than base64 for long buffers', () => {
+    const buf = new BitBuffer()
+    for (let i = 0; i < 20; i++) buf.encodeInt(i * 7919 & 0xffff, 16)
+    const bits = buf.end
+    expect(buf.toRadix('hash').length).toBe(Math.ceil(bits / Math.log2(79)))
+    expect(buf.toRadix('hash').length).toBeLessThan(Math.ceil(bits / 6))
+  })
+})
+
+describe('params with radix alphabets', () => {
+  it('binaryParam', () => {
+    const param = binaryParam<number[]>({
+      toBytes: (arr) => new Uint8Array(arr),
+      fromBytes: (bytes) => Array.from(bytes),
+      alphabet: 'hash',
+    })
+    const value = [1, 2, 3, 250, 251, 252]
+    const encoded = param.encode(value)!
+    expect(encoded).toBe(radixEncode(new Uint8Array(value), 'hash'))
+    expect(param.decode(encoded)).toEqual(value)
+    expect(param.decode('\\')).toBeNull()
+  })
+
+  it('binaryParam validates radix alphabets eagerly', () => {
+    expect(() => binaryParam({ toBytes: () => new Uint8Array(), fromBytes: () => 0, alphabet: 'aa' })).toThrow('Duplicate')
+  })
+
+  it('floatParam lossless and lossy', () => {
+    const lossless = floatParam({ default: 0, alphabet: 'hash' })
+    const encoded = lossless.encode(Math.PI)!
+    expect(encoded).toHaveLength(11)
+    expect(lossless.decode(encoded)).toBe(Math.PI)
+
+    const lossy = floatParam({ default: 0, precision: '5+22', alphabet: 'base62' })
+    expect(lossy.decode(lossy.encode(Math.PI))).toBeCloseTo(Math.PI, 5)
+  })
+
+  it('pointParam', () => {
+    const param = pointParam({ precision: 22, alphabet: 'query' })
+    const base64 = pointParam({ precision: 22 })
+    const point = { x: 40.7128, y: -74.006 }
+    const encoded = param.encode(point)!
+    expect(encoded.length).toBeLessThanOrEqual(base64.encode(point)!.length)
+    const decoded = param.decode(encoded)!
+    expect(decoded.x).toBeCloseTo(point.x, 4)
+    expect(decoded.y).toBeCloseTo(point.y, 4)
+  })
+})
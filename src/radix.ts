@@ -0,0 +1,196 @@
+/**
+ * Radix-N encoding for arbitrary alphabets (2–90 characters)
+ *
+ * Base64 packs 6 bits per character; larger alphabets pack more (base79 ≈ 6.30 bits/char),
+ * by converting the whole bit string to a big integer and writing it in base N.
+ */
+
+import { ALPHABETS, type Alphabet } from './alphabet.js'
+
+/**
+ * Named radix alphabet presets (ASCII-ordered, so equal-length strings sort like their values)
+ */
+export const RADIX_ALPHABETS = {
+  /**
+   * The 81 characters RFC 3986 allows unencoded in URL fragments, minus `&` (param delimiter)
+   * and `+` (read as a space): 79 in total. Pair with `encoding: 'minimal'` strategies, since form encoding
+   * percent-escapes most punctuation.
+   */
+  hash: "!$'()*,-./0123456789:;=?@ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz~",
+
+  /**
+   * 78 characters for query strings: `hash` minus `'` (which browsers escape in query strings)
+   */
+  query: '!$()*,-./0123456789:;=?@ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz~',
+
+  /**
+   * Alphanumerics only; never escaped by any serializer
+   */
+  base62: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz',
+} as const
+
+/**
+ * Preset radix alphabet names
+ */
+export type RadixAlphabetName = keyof typeof RADIX_ALPHABETS
+
+/**
+ * Radix alphabet specification: a preset name or a string of 2–90 characters
+ */
+export type RadixAlphabet = RadixAlphabetName | (string & {})
+
+/**
+ * Characters allowed in radix alphabets: printable ASCII, minus space, `#`, `%`, `&`, `+`
+ * (which end or corrupt a param). 90 in total.
+ */
+const RADIX_SAFE_CHAR = /^[!"$'-*,-~]$/
+
+/**
+ * Validate a radix alphabet string
+ * @throws Error if alphabet is invalid
+ */
+export function validateRadixAlphabet(alphabet: string): void {
+  if (alphabet.length < 2 || alphabet.length > 90) {
+    throw new Error(`Radix alphabet must have 2-90 characters, got ${alphabet.length}`)
+  }
+
+  const seen = new Set<string>()
+  for (const char of alphabet) {
+    if (seen.has(char)) {
+      throw new Error(`Duplicate character in alphabet: '${char}'`)
+    }
+    seen.add(char)
+  }
+
+  const unsafe = [...alphabet].filter(c => !RADIX_SAFE_CHAR.test(c))
+  if (unsafe.length > 0) {
+    throw new Error(`Alphabet contains non-URL-safe characters: ${unsafe.map(c => `'${c}'`).join(', ')}`)
+  }
+}
+
+/**
+ * Whether `name` is an own key of `presets` (`in` would also match `'constructor'` etc.)
+ */
+function isPreset<T extends object>(presets: T, name: string): name is Extract<keyof T, string> {
+  return Object.prototype.hasOwnProperty.call(presets, name)
+}
+
+/**
+ * Resolve a radix alphabet specification (radix or base64 preset name, or custom string)
+ * @throws Error if alphabet is invalid
+ */
+export function resolveRadixAlphabet(alphabet: Alphabet | RadixAlphabet): string {
+  if (isPreset(RADIX_ALPHABETS, alphabet)) {
+    return RADIX_ALPHABETS[alphabet]
+  }
+  if (isPreset(ALPHABETS, alphabet)) {
+    return ALPHABETS[alphabet]
+  }
+
+  validateRadixAlphabet(alphabet)
+  return alphabet
+}
+
+/**
+ * Whether an `alphabet` option selects base64 (a base64 preset or 64-char string)
+ * rather than radix-N encoding
+ */
+export function isBase64Alphabet(alphabet: Alphabet | RadixAlphabet): boolean {
+  if (isPreset(RADIX_ALPHABETS, alphabet)) return false
+  return isPreset(ALPHABETS, alphabet) || alphabet.length === 64
+}
+
+/**
+ * Bits that `numDigits` radix-N digits hold: floor(log2(radix^numDigits))
+ */
+function radixCapacity(radix: bigint, numDigits: number): number {
+  return (radix ** BigInt(numDigits)).toString(2).length - 1
+}
+
+/**
+ * Fewest digits with radix^digits ≥ 2^numBits
+ */
+function digitsForBits(radix: bigint, numBits: number): number {
+  const target = 1n << BigInt(numBits)
+  let digits = 0
+  for (let capacity = 1n; capacity < target; capacity *= radix) digits++
+  return digits
+}
+
+/**
+ * Encode `numBits` bits (the low bits of `value`) as radix-N digits.
+ *
+ * Uses the fewest digits that fit; the bits are left-aligned and zero-padded to the digits'
+ * full capacity, like base64 pads to a multiple of 6 bits. With a 64-char alphabet, the
+ * output matches `BitBuffer.toBase64`.
+ */
+export function encodeRadix(value: bigint, numBits: number, alphabet: Alphabet | RadixAlphabet): string {
+  const chars = resolveRadixAlphabet(alphabet)
+  const radix = BigInt(chars.length)
+  const numDigits = digitsForBits(radix, numBits)
+  const padBits = radixCapacity(radix, numDigits) - numBits
+
+  let n = value << BigInt(padBits)
+  const digits: string[] = []
+  for (let i = 0; i < numDigits; i++) {
+    digits.push(chars[Number(n % radix)])
+    n /= radix
+  }
+  return digits.reverse().join('')
+}
+
+/**
+ * Decode radix-N digits to bits. Returns all bits the digits can hold (including any
+ * padding added by `encodeRadix`), most significant first.
+ *
+ * @throws Error on characters outside the alphabet, or values too large to be valid
+ */
+export function decodeRadix(str: string, alphabet: Alphabet | RadixAlphabet): { value: bigint; numBits: number } {
+  const chars = resolveRadixAlphabet(alphabet)
+  const radix = BigInt(chars.length)
+
+  let value = 0n
+  for (const char of str) {
+    const idx = chars.indexOf(char)
+    if (idx === -1) {
+      throw new Error(`Invalid radix-${chars.length} character: '${char}'`)
+    }
+    value = value * radix + BigInt(idx)
+  }
+
+  const numBits = radixCapacity(radix, str.length)
+  if (value >> BigInt(numBits) !== 0n) {
+    throw new Error(`Invalid radix-${chars.length} string: value exceeds ${numBits} bits`)
+  }
+  return { value, numBits }
+}
+
+/**
+ * Encode a Uint8Array as radix-N digits
+ * @param bytes - The bytes to encode
+ * @param alphabet - Radix preset name or alphabet string
+ */
+export function radixEncode(bytes: Uint8Array, alphabet: Alphabet | RadixAlphabet): string {
+  let value = 0n
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte)
+  }
+  return encodeRadix(value, bytes.length * 8, alphabet)
+}
+
+/**
+ * Decode radix-N digits to a Uint8Array (padding bits are dropped)
+ * @param str - The string to decode
+ * @param alphabet - Radix preset name or alphabet string
+ */
+export function radixDecode(str: string, alphabet: Alphabet | RadixAlphabet): Uint8Array {
+  const { value, numBits } = decodeRadix(str, alphabet)
+  const numBytes = numBits >> 3
+  let n = value >> BigInt(numBits - numBytes * 8)
+  const bytes = new Uint8Array(numBytes)
+  for (let i = numBytes - 1; i >= 0; i--) {
+    bytes[i] = Number(n & 0xffn)
+    n >>= 8n
+  }
+  return bytes
+}
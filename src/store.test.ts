@@ -0,0 +1,127 @@
+/**
+ * @vitest-environment happy-dom
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { getUrlStore } from './store.js'
+import { queryStrategy, hashStrategy, type LocationStrategy } from './core.js'
+
+beforeEach(() => {
+  window.history.replaceState({}, '', '/')
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('getUrlStore', () => {
+  it('returns one store per strategy', () => {
+    expect(getUrlStore(queryStrategy)).toBe(getUrlStore(queryStrategy))
+    expect(getUrlStore(queryStrategy)).not.toBe(getUrlStore(hashStrategy))
+  })
+})
+
+describe('UrlStore', () => {
+  it('caches snapshot until URL changes', () => {
+    const store = getUrlStore(queryStrategy)
+    window.history.replaceState({}, '', '/?a=1')
+    const first = store.getSnapshot()
+    expect(first).toEqual({ a: ['1'] })
+    expect(store.getSnapshot()).toBe(first)
+
+    window.history.replaceState({}, '', '/?a=2')
+    expect(store.getSnapshot()).toEqual({ a: ['2'] })
+  })
+
+  it('merges writes from the same tick into one history call', async () => {
+    const store = getUrlStore(queryStrategy)
+    const replaceState = vi.spyOn(window.history, 'replaceState')
+    const pushState = vi.spyOn(window.history, 'pushState')
+
+    store.write({ a: ['1'] })
+    store.write({ b: ['2'] })
+    store.write({ a: ['3'] })
+    expect(replaceState).not.toHaveBeenCalled()
+
+    await Promise.resolve()
+
+    expect(replaceState).toHaveBeenCalledTimes(1)
+    expect(pushState).not.toHaveBeenCalled()
+    expect(window.location.search).toBe('?a=3&b=2')
+  })
+
+  it('uses pushState if any queued write requested it', async () => {
+    const store = getUrlStore(queryStrategy)
+    const replaceState = vi.spyOn(window.history, 'replaceState')
+    const pushState = vi.spyOn(window.history, 'pushState')
+
+    store.write({ a: ['1'] })
+    store.write({ b: ['2'] }, true)
+    await Promise.resolve()
+
+    expect(pushState).toHaveBeenCalledTimes(1)
+    expect(replaceState).not.toHaveBeenCalled()
+  })
+
+  it('includes queued writes in snapshot before flush', () => {
+    window.history.replaceState({}, '', '/?a=1&b=2')
+    const store = getUrlStore(queryStrategy)
+
+    store.write({ a: [], c: ['3'] })
+    expect(store.getSnapshot()).toEqual({ b: ['2'], c: ['3'] })
+    expect(window.location.search).toBe('?a=1&b=2')
+
+    store.flush()
+    expect(window.location.search).toBe('?b=2&c=3')
+  })
+
+  it('notifies each listener once per flush', async () => {
+    const store = getUrlStore(queryStrategy)
+    const listener = vi.fn()
+    const popstate = vi.fn()
+    window.addEventListener('popstate', popstate)
+    const unsubscribe = store.subscribe(listener)
+
+    store.write({ a: ['1'] })
+    store.write({ b: ['2'] })
+    await Promise.resolve()
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(popstate).toHaveBeenCalledTimes(1)
+
+    unsubscribe()
+    window.removeEventListener('popstate', popstate)
+  })
+
+  it('keeps queued writes when there is nowhere to write', () => {
+    const strategy: LocationStrategy = {
+      getRaw: () => '',
+      parse: () => ({}),
+      buildUrl: () => '',
+      subscribe: () => () => {},
+    }
+    const store = getUrlStore(strategy)
+    vi.stubGlobal('window', undefined)
+    try {
+      store.write({ a: ['1'] })
+      store.flush()
+      expect(store.getSnapshot()).toEqual({ a: ['1'] })
+      store.write({ b: ['2'] })
+      store.flush()
+      expect(store.getSnapshot()).toEqual({ a: ['1'], b: ['2'] })
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+
+  it('notifies listeners of external navigation', () => {
+    const store = getUrlStore(queryStrategy)
+    const listener = vi.fn()
+    const unsubscribe = store.subscribe(listener)
+
+    window.history.pushState({}, '', '/?x=1')
+    expect(listener).toHaveBeenCalled()
+    expect(store.getSnapshot()).toEqual({ x: ['1'] })
+
+    unsubscribe()
+  })
+})
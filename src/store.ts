@@ -0,0 +1,201 @@
+/**
+ * Shared URL store sitting between a LocationStrategy and the hooks
+ *
+ * Every hook instance using the same strategy shares one store, which:
+ * - caches the parsed snapshot (one `parse()` per URL change, not per hook)
+ * - queues writes made in the same tick and merges them into one `buildUrl` + one history call
+ * - subscribes to the strategy once and fans out one notification per change
+ */
+
+import type { LocationStrategy, MultiEncoded } from './core.js'
+
+/**
+ * Shared, batching view of the params stored by a LocationStrategy
+ */
+export interface UrlStore {
+  /** The strategy this store reads from and writes to */
+  strategy: LocationStrategy
+  /**
+   * Current params, including queued (not yet flushed) writes.
+   * Returns the same object until the URL or the write queue changes.
+   */
+  getSnapshot(): Record<string, MultiEncoded>
+  /**
+   * Params to render on the server and during hydration: parsed from `serverUrl` if given
+   * and the strategy supports `parseUrl`, else empty (so hooks render defaults).
+   */
+  getServerSnapshot(serverUrl?: string | URL): Record<string, MultiEncoded>
+  /** Subscribe to param changes, returns unsubscribe function */
+  subscribe(listener: () => void): () => void
+  /**
+   * Queue updates for the next flush. An empty array removes the key.
+   * Writes made in the same microtask are merged into a single history entry,
+   * which uses pushState if any of them requested it.
+   */
+  write(updates: Record<string, MultiEncoded>, push?: boolean): void
+  /**
+   * Apply queued writes now (normally called automatically after the hooks' next render, or
+   * in a microtask). Without a `navigate` strategy or `window`, writes stay queued.
+   */
+  flush(): void
+}
+
+/**
+ * Empty snapshot, shared so server snapshots are referentially stable
+ */
+const EMPTY_SNAPSHOT: Record<string, MultiEncoded> = Object.freeze({}) as Record<string, MultiEncoded>
+
+/**
+ * Base for resolving relative server URLs (only the search/hash parts matter)
+ */
+const SERVER_ORIGIN = 'http://localhost'
+
+/**
+ * Create a store for a strategy. Prefer `getUrlStore`, which shares one store per strategy.
+ */
+function createUrlStore(strategy: LocationStrategy): UrlStore {
+  const listeners = new Set<() => void>()
+  let unsubscribeStrategy: (() => void) | null = null
+
+  // Parsed URL, cached by raw location string
+  let parsed: { raw: string; params: Record<string, MultiEncoded> } | null = null
+  // Parsed URL merged with queued writes, cached by (parsed, queue version)
+  let merged: { base: Record<string, MultiEncoded>; version: number; params: Record<string, MultiEncoded> } | null = null
+
+  // Server snapshot, cached by URL string
+  let server: { href: string; params: Record<string, MultiEncoded> } | null = null
+
+  let queue: { updates: Record<string, MultiEncoded>; push: boolean } | null = null
+  let version = 0
+  let flushing = false
+
+  function parse(): Record<string, MultiEncoded> {
+    const raw = strategy.getRaw()
+    if (!parsed || parsed.raw !== raw) {
+      parsed = { raw, params: strategy.parse() }
+    }
+    return parsed.params
+  }
+
+  function notify(): void {
+    for (const listener of [...listeners]) listener()
+  }
+
+  function onStrategyChange(): void {
+    // Our own flush notifies once after the history write; ignore the events it triggers
+    if (flushing) return
+    notify()
+  }
+
+  const store: UrlStore = {
+    strategy,
+
+    getSnapshot() {
+      const base = parse()
+      if (!queue) return base
+      if (!merged || merged.base !== base || merged.version !== version) {
+        const params = { ...base }
+        for (const [key, encoded] of Object.entries(queue.updates)) {
+          if (encoded.length === 0) {
+            delete params[key]
+          } else {
+            params[key] = encoded
+          }
+        }
+        merged = { base, version, params }
+      }
+      return merged.params
+    },
+
+    getServerSnapshot(serverUrl) {
+      if (serverUrl === undefined || !strategy.parseUrl) return EMPTY_SNAPSHOT
+      const href = serverUrl.toString()
+      if (!server || server.href !== href) {
+        server = { href, params: strategy.parseUrl(new URL(href, SERVER_ORIGIN)) }
+      }
+      return server.params
+    },
+
+    subscribe(listener) {
+      listeners.add(listener)
+      if (!unsubscribeStrategy) {
+        unsubscribeStrategy = strategy.subscribe(onStrategyChange)
+      }
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0 && unsubscribeStrategy) {
+          unsubscribeStrategy()
+          unsubscribeStrategy = null
+        }
+      }
+    },
+
+    write(updates, push = false) {
+      const scheduled = queue !== null
+      queue = {
+        updates: { ...queue?.updates, ...updates },
+        push: (queue?.push ?? false) || push,
+      }
+      version++
+      if (!scheduled) {
+        queueMicrotask(() => store.flush())
+      }
+    },
+
+    flush() {
+      if (!queue) return
+      // Nowhere to write (SSR, non-DOM tests): keep the queue, so snapshots still include it
+      if (!strategy.navigate && typeof window === 'undefined') return
+      const { updates, push } = queue
+      queue = null
+
+      const currentParams = { ...parse() }
+      for (const [key, encoded] of Object.entries(updates)) {
+        if (encoded.length === 0) {
+          delete currentParams[key]
+        } else {
+          currentParams[key] = encoded
+        }
+      }
+
+      // Build and update URL once for all queued writes
+      const url = new URL(strategy.getHref ? strategy.getHref() : window.location.href)
+      const newUrl = strategy.buildUrl(url, currentParams)
+
+      flushing = true
+      try {
+        if (strategy.navigate) {
+          strategy.navigate(newUrl, push)
+        } else {
+          const method = push ? 'pushState' : 'replaceState'
+          window.history[method]({ ...window.history.state }, '', newUrl)
+
+          // Notify React Router and other libraries that listen to popstate
+          window.dispatchEvent(new PopStateEvent('popstate'))
+        }
+      } finally {
+        flushing = false
+      }
+      notify()
+    },
+  }
+
+  return store
+}
+
+/**
+ * Stores keyed by strategy (so query and hash don't share state)
+ */
+const stores = new WeakMap<LocationStrategy, UrlStore>()
+
+/**
+ * Get the shared store for a strategy, creating it on first use
+ */
+export function getUrlStore(strategy: LocationStrategy): UrlStore {
+  let store = stores.get(strategy)
+  if (!store) {
+    store = createUrlStore(strategy)
+    stores.set(strategy, store)
+  }
+  return store
+}
@@ -4,8 +4,14 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { renderHook, act } from '@testing-library/react'
 import { useState } from 'react'
-import { useUrlState } from './useUrlState.js'
-import { intParam } from './index.js'
+import type { ReactElement, ReactNode } from 'react'
+import { renderToString } from 'react-dom/server'
+import { hydrateRoot } from 'react-dom/client'
+import { useMultiUrlState, useMultiUrlStates, useUrlState, useUrlStates } from './useUrlState.js'
+import { boolParam, intParam, multiIntParam, multiStringParam } from './index.js'
+import { UrlStateProvider } from './context.js'
+import { hashStrategy } from './core.js'
+import { createMemoryStrategy, type MemoryStrategy } from './memory.js'
 
 // Reset URL before each test
 beforeEach(() => {
@@ -148,3 +154,332 @@ describe('useUrlState debounce', () => {
     expect(result.current[0]).toBe(42)
   })
 })
+
+describe('functional updates', () => {
+  it('useUrlState applies successive updaters in the same tick', () => {
+    const { result } = renderHook(() => useUrlState('n', intParam(0)))
+
+    act(() => {
+      result.current[1](n => n + 1)
+      result.current[1](n => n + 1)
+      result.current[1](n => n + 1)
+    })
+
+    expect(result.current[0]).toBe(3)
+    expect(window.location.search).toBe('?n=3')
+  })
+
+  it('useUrlState toggles boolParam from two handlers', () => {
+    const { result } = renderHook(() => useUrlState('z', boolParam))
+
+    act(() => {
+      result.current[1](z => !z)
+      result.current[1](z => !z)
+    })
+
+    expect(result.current[0]).toBe(false)
+    expect(window.location.search).toBe('')
+  })
+
+  it('useUrlState updaters see pending debounced value', () => {
+    vi.useFakeTimers()
+
+    const { result } = renderHook(() =>
+      useUrlState('n', intParam(0), { debounce: 500 })
+    )
+
+    act(() => {
+      result.current[1](10)
+      result.current[1](n => n + 5)
+    })
+    expect(result.current[0]).toBe(15)
+
+    act(() => {
+      result.current[1](n => n * 2)
+    })
+    expect(result.current[0]).toBe(30)
+    expect(window.location.search).toBe('')
+
+    act(() => {
+      vi.advanceTimersByTime(600)
+    })
+    expect(window.location.search).toBe('?n=30')
+    expect(result.current[0]).toBe(30)
+  })
+
+  it('useUrlState updater reads externally-changed URL', () => {
+    window.history.replaceState({}, '', '/?n=7')
+    const { result } = renderHook(() => useUrlState('n', intParam(0)))
+
+    act(() => {
+      result.current[1](n => n + 1)
+    })
+    expect(result.current[0]).toBe(8)
+  })
+
+  it('useUrlStates passes previous values to updater', () => {
+    const { result } = renderHook(() =>
+      useUrlStates({ a: intParam(0), b: intParam(0) })
+    )
+
+    act(() => {
+      result.current.setValues(({ a }) => ({ a: a + 1 }))
+      result.current.setValues(({ a, b }) => ({ a: a + 1, b: b + 10 }))
+    })
+
+    expect(result.current.values).toEqual({ a: 2, b: 10 })
+    expect(window.location.search).toBe('?a=2&b=10')
+  })
+
+  it('useUrlStates updaters see pending debounced values', () => {
+    vi.useFakeTimers()
+
+    const { result } = renderHook(() =>
+      useUrlStates({ a: intParam(0), b: intParam(0) }, { debounce: 500 })
+    )
+
+    act(() => {
+      result.current.setValues({ a: 5 })
+      result.current.setValues(({ a, b }) => ({ b: a + b + 1 }))
+    })
+    expect(result.current.values).toEqual({ a: 5, b: 6 })
+
+    act(() => {
+      vi.advanceTimersByTime(600)
+    })
+    expect(window.location.search).toBe('?a=5&b=6')
+  })
+
+  it('debounced setValues ignores keys without a param', () => {
+    vi.useFakeTimers()
+
+    const { result } = renderHook(() => ({
+      single: useUrlStates({ a: intParam(0) }, { debounce: 500 }),
+      multi: useMultiUrlStates({ t: multiStringParam() }, { debounce: 500 }),
+    }))
+
+    // Non-literal objects skip excess property checks, like untyped callers
+    const singleUpdates = { a: 3, unknown: 1 }
+    const multiUpdates = { t: ['x'], unknown: ['y'] }
+    act(() => {
+      result.current.single.setValues(singleUpdates)
+      result.current.multi.setValues(multiUpdates)
+    })
+    expect(result.current.single.values).toEqual({ a: 3 })
+    expect(result.current.multi.values).toEqual({ t: ['x'] })
+
+    act(() => {
+      vi.advanceTimersByTime(600)
+    })
+    expect(window.location.search).toBe('?a=3&t=x')
+  })
+
+  it('useMultiUrlState applies successive updaters', () => {
+    const { result } = renderHook(() => useMultiUrlState('t', multiStringParam()))
+
+    act(() => {
+      result.current[1](tags => [...tags, 'a'])
+      result.current[1](tags => [...tags, 'b'])
+    })
+
+    expect(result.current[0]).toEqual(['a', 'b'])
+    expect(window.location.search).toBe('?t=a&t=b')
+  })
+
+  it('useMultiUrlStates passes previous values to updater', () => {
+    const { result } = renderHook(() =>
+      useMultiUrlStates({ t: multiStringParam(), i: multiIntParam() })
+    )
+
+    act(() => {
+      result.current.setValues(({ i }) => ({ i: [...i, 1] }))
+      result.current.setValues(({ t, i }) => ({ t: [...t, 'x'], i: [...i, 2] }))
+    })
+
+    expect(result.current.values).toEqual({ t: ['x'], i: [1, 2] })
+    expect(window.location.search).toBe('?i=1&i=2&t=x')
+  })
+})
+
+describe('shared store', () => {
+  it('batches writes from multiple hooks into one history entry', async () => {
+    const replaceState = vi.spyOn(window.history, 'replaceState')
+    const popstate = vi.fn()
+    window.addEventListener('popstate', popstate)
+
+    const { result } = renderHook(() => ({
+      a: useUrlState('a', intParam(0)),
+      b: useUrlState('b', intParam(0)),
+      z: useUrlState('z', boolParam),
+    }))
+
+    await act(async () => {
+      result.current.a[1](1)
+      result.current.b[1](2)
+      result.current.z[1](true)
+    })
+
+    expect(replaceState).toHaveBeenCalledTimes(1)
+    expect(popstate).toHaveBeenCalledTimes(1)
+    expect(window.location.search).toBe('?a=1&b=2&z')
+    expect(result.current.a[0]).toBe(1)
+    expect(result.current.b[0]).toBe(2)
+    expect(result.current.z[0]).toBe(true)
+
+    window.removeEventListener('popstate', popstate)
+    replaceState.mockRestore()
+  })
+
+  it('writes the URL when a synchronous act() ends', () => {
+    const replaceState = vi.spyOn(window.history, 'replaceState')
+
+    const { result } = renderHook(() => ({
+      a: useUrlState('a', intParam(0)),
+      t: useMultiUrlState('t', multiStringParam()),
+    }))
+
+    act(() => {
+      result.current.a[1](1)
+      result.current.t[1](['x', 'y'])
+    })
+
+    expect(replaceState).toHaveBeenCalledTimes(1)
+    expect(window.location.search).toBe('?a=1&t=x&t=y')
+    expect(result.current.a[0]).toBe(1)
+    expect(result.current.t[0]).toEqual(['x', 'y'])
+
+    replaceState.mockRestore()
+  })
+})
+
+describe('memory strategy', () => {
+  function memoryWrapper(memory: MemoryStrategy) {
+    return ({ children }: { children: ReactNode }) => (
+      <UrlStateProvider strategy={memory}>{children}</UrlStateProvider>
+    )
+  }
+
+  it('useUrlState reads and writes memory history, not window', async () => {
+    const memory = createMemoryStrategy('/?n=1')
+    const { result } = renderHook(() => useUrlState('n', intParam(0), { push: true }), {
+      wrapper: memoryWrapper(memory),
+    })
+    expect(result.current[0]).toBe(1)
+
+    await act(async () => {
+      result.current[1](2)
+    })
+    expect(result.current[0]).toBe(2)
+    expect(memory.entries).toEqual(['http://localhost/?n=1', 'http://localhost/?n=2'])
+    expect(window.location.search).toBe('')
+
+    await act(async () => {
+      memory.back()
+    })
+    expect(result.current[0]).toBe(1)
+  })
+
+  it('useUrlStates writes to memory', async () => {
+    const memory = createMemoryStrategy()
+    const { result } = renderHook(() => useUrlStates({ a: intParam(0), z: boolParam }), {
+      wrapper: memoryWrapper(memory),
+    })
+
+    await act(async () => {
+      result.current.setValues({ a: 3, z: true })
+    })
+    expect(result.current.values).toEqual({ a: 3, z: true })
+    expect(memory.getParams()).toEqual({ a: ['3'], z: [''] })
+  })
+
+  it('useMultiUrlState and useMultiUrlStates write to memory', async () => {
+    const memory = createMemoryStrategy('/?t=a')
+    const { result } = renderHook(() => ({
+      tags: useMultiUrlState('t', multiStringParam()),
+      multi: useMultiUrlStates({ i: multiIntParam() }),
+    }), {
+      wrapper: memoryWrapper(memory),
+    })
+    expect(result.current.tags[0]).toEqual(['a'])
+
+    await act(async () => {
+      result.current.tags[1](tags => [...tags, 'b'])
+      result.current.multi.setValues({ i: [1, 2] })
+    })
+    expect(result.current.tags[0]).toEqual(['a', 'b'])
+    expect(result.current.multi.values.i).toEqual([1, 2])
+    expect(memory.href).toBe('http://localhost/?t=a&t=b&i=1&i=2')
+  })
+})
+
+describe('server rendering', () => {
+  function Counter() {
+    const [n] = useUrlState('n', intParam(0))
+    return <span>n={n}</span>
+  }
+
+  async function hydrate(html: string, element: ReactElement) {
+    const container = document.createElement('div')
+    container.innerHTML = html
+    document.body.appendChild(container)
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const recoverable: unknown[] = []
+    const root = await act(async () => hydrateRoot(container, element, {
+      onRecoverableError: (e) => { recoverable.push(e) },
+    }))
+    const result = { text: container.textContent, errors: [...errors.mock.calls], recoverable }
+    errors.mockRestore()
+    await act(async () => root.unmount())
+    container.remove()
+    return result
+  }
+
+  it('renders defaults without serverUrl', () => {
+    window.history.replaceState({}, '', '/?n=5')
+    expect(renderToString(<Counter />)).toBe('<span>n=<!-- -->0</span>')
+  })
+
+  it('decodes serverUrl during server render', () => {
+    const html = renderToString(
+      <UrlStateProvider serverUrl="/page?n=5"><Counter /></UrlStateProvider>
+    )
+    expect(html).toBe('<span>n=<!-- -->5</span>')
+  })
+
+  it('decodes serverUrl with a memory strategy', () => {
+    const html = renderToString(
+      <UrlStateProvider strategy={createMemoryStrategy()} serverUrl="http://example.com/?n=3">
+        <Counter />
+      </UrlStateProvider>
+    )
+    expect(html).toBe('<span>n=<!-- -->3</span>')
+  })
+
+  it('hydrates query params without mismatch', async () => {
+    const element = <UrlStateProvider serverUrl="/?n=5"><Counter /></UrlStateProvider>
+    const html = renderToString(element)
+    window.history.replaceState({}, '', '/?n=5')
+
+    const { text, errors, recoverable } = await hydrate(html, element)
+    expect(text).toBe('n=5')
+    expect(errors).toEqual([])
+    expect(recoverable).toEqual([])
+  })
+
+  it('hydrates hash params by rendering defaults first', async () => {
+    const element = (
+      <UrlStateProvider strategy={hashStrategy} serverUrl="/">
+        <Counter />
+      </UrlStateProvider>
+    )
+    const html = renderToString(element)
+    expect(html).toBe('<span>n=<!-- -->0</span>')
+    window.history.replaceState({}, '', '/#n=7')
+
+    const { text, errors, recoverable } = await hydrate(html, element)
+    // Hash value appears after hydration, without a mismatch
+    expect(text).toBe('n=7')
+    expect(errors).toEqual([])
+    expect(recoverable).toEqual([])
+  })
+})
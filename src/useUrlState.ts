@@ -4,9 +4,10 @@
 
 import { useCallback, useEffect, useReducer, useRef, useSyncExternalStore } from 'react'
 import type { Param } from './index.js'
-import type { LocationStrategy, MultiEncoded } from './core.js'
-import { getDefaultStrategy } from './core.js'
+import type { MultiEncoded } from './core.js'
 import type { MultiParam } from './multiParams.js'
+import { getUrlStore } from './store.js'
+import { useUrlStateConfig } from './context.js'
 
 /**
  * Options for useUrlState hook
@@ -27,6 +28,26 @@ export interface UseUrlStateOptions {
   push?: boolean
 }
 
+/**
+ * New value, or a function computing it from the previous value (like React's `SetStateAction`).
+ * The previous value includes pending (debounced) writes and writes made earlier in the same tick.
+ */
+export type UrlStateAction<T> = T | ((prev: T) => T)
+
+/**
+ * Partial update for multi-param hooks, or a function computing it from the previous values
+ */
+export type UrlStatesAction<V> = Partial<V> | ((prev: V) => Partial<V>)
+
+/**
+ * Resolve a possibly-functional action against the previous value
+ */
+function resolveAction<T>(action: T | ((prev: T) => T), getPrev: () => T): T {
+  return typeof action === 'function'
+    ? (action as (prev: T) => T)(getPrev())
+    : action
+}
+
 /**
  * Simple debounce implementation with cancel support
  */
@@ -54,39 +75,6 @@ function debounce<T extends (...args: any[]) => void>(
   return debounced
 }
 
-/**
- * Cached snapshot to prevent infinite loops in useSyncExternalStore
- * Keyed by strategy (so query and hash don't share cache)
- */
-const snapshotCache = new WeakMap<LocationStrategy, {
-  raw: string
-  snapshot: Record<string, MultiEncoded>
-}>()
-
-/**
- * Get URL snapshot for a given strategy
- * Returns cached snapshot if URL hasn't changed
- */
-function getSnapshot(strategy: LocationStrategy): Record<string, MultiEncoded> {
-  const raw = strategy.getRaw()
-  const cached = snapshotCache.get(strategy)
-
-  if (cached && cached.raw === raw) {
-    return cached.snapshot
-  }
-
-  const snapshot = strategy.parse()
-  snapshotCache.set(strategy, { raw, snapshot })
-  return snapshot
-}
-
-/**
- * Server-side snapshot (always empty)
- */
-function getServerSnapshot(): Record<string, MultiEncoded> {
-  return {}
-}
-
 /**
  * Convert single-value Encoded to multi-value MultiEncoded
  */
@@ -113,7 +101,7 @@ function multiToSingle(multi: MultiEncoded): string | undefined {
  *
  * @param key - Query parameter key
  * @param param - Param encoder/decoder
- * @param options - Options (debounce, push)
+ * @param options - Options (debounce, push); defaults come from the nearest UrlStateProvider
  * @returns Tuple of [value, setValue]
  *
  * @example
@@ -129,14 +117,11 @@ export function useUrlState<T>(
   key: string,
   param: Param<T>,
   options: UseUrlStateOptions | boolean = {}
-): [T, (value: T) => void] {
-  // Handle legacy boolean `push` argument for backwards compatibility
-  const opts: UseUrlStateOptions = typeof options === 'boolean'
-    ? { push: options }
-    : options
-  const { debounce: debounceMs = 0, push = false } = opts
-
-  const strategy = getDefaultStrategy()
+): [T, (action: UrlStateAction<T>) => void] {
+  // Resolve strategy and options: per-call options, then UrlStateProvider, then global defaults
+  const { strategy, serverUrl, push, debounce: debounceMs } = useUrlStateConfig(options)
+  const store = getUrlStore(strategy)
+  const getServerSnapshot = useCallback(() => store.getServerSnapshot(serverUrl), [store, serverUrl])
 
   // Use ref to avoid recreating setValue when param changes
   const paramRef = useRef(param)
@@ -163,8 +148,8 @@ export function useUrlState<T>(
 
   // Subscribe to URL changes
   const urlParams = useSyncExternalStore(
-    (cb) => strategy.subscribe(cb),
-    () => getSnapshot(strategy),
+    store.subscribe,
+    store.getSnapshot,
     getServerSnapshot
   )
 
@@ -205,33 +190,21 @@ export function useUrlState<T>(
     lastWrittenRef.current = null
   }
 
-  // Create the URL write function
+  // Create the URL write function (queued in the shared store, flushed after the next render)
   const writeToUrl = useCallback(
     (newValue: T, newEncoded: string | undefined) => {
-      if (typeof window === 'undefined') return
-
-      const currentParams = strategy.parse()
-
-      // Update this parameter (single → multi)
-      if (newEncoded === undefined) {
-        delete currentParams[key]
-      } else {
-        currentParams[key] = [newEncoded]
-      }
-
-      // Build and update URL
-      const url = new URL(window.location.href)
-      const newUrl = strategy.buildUrl(url, currentParams)
-
-      const method = push ? 'pushState' : 'replaceState'
-      window.history[method]({ ...window.history.state }, '', newUrl)
-
-      // Notify React Router and other libraries that listen to popstate
-      window.dispatchEvent(new PopStateEvent('popstate'))
+      store.write({ [key]: singleToMulti(newEncoded) }, push)
+      forceUpdate()
     },
-    [key, push, strategy]
+    [key, push, store, forceUpdate]
   )
 
+  // Flush queued writes once the re-render they trigger commits (React batches the setters
+  // called in one event into one render); the store's own microtask covers the rest
+  useEffect(() => {
+    store.flush()
+  })
+
   // Setup/teardown debounced function when debounceMs changes
   useEffect(() => {
     if (debounceMs > 0) {
@@ -250,9 +223,23 @@ export function useUrlState<T>(
     }
   }, [debounceMs, writeToUrl])
 
+  // Resolve the latest value at call time (for functional updates): pending debounce value,
+  // then our last write if the URL still reflects it, then the URL itself
+  const getPrev = useCallback((): T => {
+    if (pendingRef.current && pendingRef.current.prevRaw === strategy.getRaw()) {
+      return pendingRef.current.decoded
+    }
+    const currentEncoded = multiToSingle(store.getSnapshot()[key] ?? [])
+    if (lastWrittenRef.current && lastWrittenRef.current.encoded === currentEncoded) {
+      return lastWrittenRef.current.decoded
+    }
+    return paramRef.current.decode(currentEncoded)
+  }, [key, store, strategy])
+
   // Exposed setter: update causality tracking + write to URL (possibly debounced)
   const setValue = useCallback(
-    (newValue: T) => {
+    (action: UrlStateAction<T>) => {
+      const newValue = resolveAction(action, getPrev)
       const newEncoded = paramRef.current.encode(newValue)
 
       // Track what we're writing for causality
@@ -267,7 +254,7 @@ export function useUrlState<T>(
         writeToUrl(newValue, newEncoded)
       }
     },
-    [writeToUrl, strategy, forceUpdate]
+    [writeToUrl, getPrev, strategy, forceUpdate]
   )
 
   return [value, setValue]
@@ -283,7 +270,7 @@ export function useUrlState<T>(
  * - Optional debounce for high-frequency updates
  *
  * @param params - Object mapping keys to Param types
- * @param options - Options (debounce, push)
+ * @param options - Options (debounce, push); defaults come from the nearest UrlStateProvider
  * @returns Object with decoded values and update function
  *
  * @example
@@ -303,15 +290,12 @@ export function useUrlStates<P extends Record<string, Param<any>>>(
   options: UseUrlStateOptions | boolean = {}
 ): {
   values: { [K in keyof P]: P[K] extends Param<infer T> ? T : never }
-  setValues: (updates: Partial<{ [K in keyof P]: P[K] extends Param<infer T> ? T : never }>) => void
+  setValues: (action: UrlStatesAction<{ [K in keyof P]: P[K] extends Param<infer T> ? T : never }>) => void
 } {
-  // Handle legacy boolean `push` argument for backwards compatibility
-  const opts: UseUrlStateOptions = typeof options === 'boolean'
-    ? { push: options }
-    : options
-  const { debounce: debounceMs = 0, push = false } = opts
-
-  const strategy = getDefaultStrategy()
+  // Resolve strategy and options: per-call options, then UrlStateProvider, then global defaults
+  const { strategy, serverUrl, push, debounce: debounceMs } = useUrlStateConfig(options)
+  const store = getUrlStore(strategy)
+  const getServerSnapshot = useCallback(() => store.getServerSnapshot(serverUrl), [store, serverUrl])
 
   // Force re-render trigger for debounce
   const [, forceUpdate] = useReducer((c: number) => c + 1, 0)
@@ -330,8 +314,8 @@ export function useUrlStates<P extends Record<string, Param<any>>>(
 
   // Subscribe to URL changes
   const urlParams = useSyncExternalStore(
-    (cb) => strategy.subscribe(cb),
-    () => getSnapshot(strategy),
+    store.subscribe,
+    store.getSnapshot,
     getServerSnapshot
   )
 
@@ -385,35 +369,25 @@ export function useUrlStates<P extends Record<string, Param<any>>>(
     ) as any
   }
 
-  // Create the URL write function
+  // Create the URL write function (queued in the shared store, flushed after the next render)
   const writeToUrl = useCallback(
     (updates: Record<string, { encoded: string | undefined; decoded: any }>) => {
-      if (typeof window === 'undefined') return
-
-      const currentParams = strategy.parse()
-
-      // Apply all updates
-      for (const [key, { encoded }] of Object.entries(updates)) {
-        if (encoded === undefined) {
-          delete currentParams[key]
-        } else {
-          currentParams[key] = [encoded]
-        }
-      }
-
-      // Build and update URL once
-      const url = new URL(window.location.href)
-      const newUrl = strategy.buildUrl(url, currentParams)
-
-      const method = push ? 'pushState' : 'replaceState'
-      window.history[method]({ ...window.history.state }, '', newUrl)
-
-      // Notify React Router and other libraries that listen to popstate
-      window.dispatchEvent(new PopStateEvent('popstate'))
+      store.write(
+        Object.fromEntries(
+          Object.entries(updates).map(([key, { encoded }]) => [key, singleToMulti(encoded)])
+        ),
+        push
+      )
+      forceUpdate()
     },
-    [push, strategy]
+    [push, store, forceUpdate]
   )
 
+  // Flush queued writes once the re-render they trigger commits (see useUrlState)
+  useEffect(() => {
+    store.flush()
+  })
+
   // Setup/teardown debounced function when debounceMs changes
   useEffect(() => {
     if (debounceMs > 0) {
@@ -432,9 +406,30 @@ export function useUrlStates<P extends Record<string, Param<any>>>(
     }
   }, [debounceMs, writeToUrl])
 
+  // Resolve the latest values at call time (for functional updates), per key: pending
+  // debounce value, then our last write if the URL still reflects it, then the URL itself
+  const getPrevValues = useCallback(() => {
+    const currentParams = store.getSnapshot()
+    const pending = pendingRef.current && pendingRef.current.prevRaw === strategy.getRaw()
+      ? pendingRef.current.values
+      : {}
+    return Object.fromEntries(
+      Object.entries(params).map(([key, param]) => {
+        if (key in pending) return [key, pending[key]]
+        const encoded = multiToSingle(currentParams[key] ?? [])
+        const lastWritten = lastWrittenRef.current[key]
+        if (lastWritten && lastWritten.encoded === encoded) {
+          return [key, lastWritten.decoded]
+        }
+        return [key, param.decode(encoded)]
+      })
+    ) as { [K in keyof P]: P[K] extends Param<infer T> ? T : never }
+  }, [params, store, strategy])
+
   // Update multiple parameters at once
   const setValues = useCallback(
-    (updates: Partial<{ [K in keyof P]: P[K] extends Param<infer T> ? T : never }>) => {
+    (action: UrlStatesAction<{ [K in keyof P]: P[K] extends Param<infer T> ? T : never }>) => {
+      const updates = typeof action === 'function' ? action(getPrevValues()) : action
       const encodedUpdates: Record<string, { encoded: string | undefined; decoded: any }> = {}
 
       for (const [key, value] of Object.entries(updates)) {
@@ -448,17 +443,21 @@ export function useUrlStates<P extends Record<string, Param<any>>>(
 
       if (debouncedWriteRef.current) {
         const pendingValues = pendingRef.current?.values ?? {}
-        for (const [key, value] of Object.entries(updates)) {
-          pendingValues[key] = value
+        // Only keys with a param (as written above); others have no lastWritten entry
+        for (const key of Object.keys(encodedUpdates)) {
+          pendingValues[key] = lastWrittenRef.current[key].decoded
         }
         pendingRef.current = { values: pendingValues, prevRaw: strategy.getRaw() }
-        debouncedWriteRef.current(encodedUpdates)
+        // Write every key updated during this debounce window, not just this call's
+        debouncedWriteRef.current(Object.fromEntries(
+          Object.keys(pendingValues).map(key => [key, lastWrittenRef.current[key]])
+        ))
         forceUpdate()
       } else {
         writeToUrl(encodedUpdates)
       }
     },
-    [params, writeToUrl, strategy, forceUpdate]
+    [params, writeToUrl, getPrevValues, strategy, forceUpdate]
   )
 
   return { values, setValues }
@@ -475,7 +474,7 @@ export function useUrlStates<P extends Record<string, Param<any>>>(
  *
  * @param key - Query parameter key
  * @param param - MultiParam encoder/decoder
- * @param options - Options (debounce, push)
+ * @param options - Options (debounce, push); defaults come from the nearest UrlStateProvider
  * @returns Tuple of [value, setValue]
  *
  * @example
@@ -488,13 +487,11 @@ export function useMultiUrlState<T>(
   key: string,
   param: MultiParam<T>,
   options: UseUrlStateOptions | boolean = {}
-): [T, (value: T) => void] {
-  const opts: UseUrlStateOptions = typeof options === 'boolean'
-    ? { push: options }
-    : options
-  const { debounce: debounceMs = 0, push = false } = opts
-
-  const strategy = getDefaultStrategy()
+): [T, (action: UrlStateAction<T>) => void] {
+  // Resolve strategy and options: per-call options, then UrlStateProvider, then global defaults
+  const { strategy, serverUrl, push, debounce: debounceMs } = useUrlStateConfig(options)
+  const store = getUrlStore(strategy)
+  const getServerSnapshot = useCallback(() => store.getServerSnapshot(serverUrl), [store, serverUrl])
 
   const paramRef = useRef(param)
   paramRef.current = param
@@ -514,8 +511,8 @@ export function useMultiUrlState<T>(
   const debouncedWriteRef = useRef<ReturnType<typeof debounce<(encoded: MultiEncoded) => void>> | null>(null)
 
   const urlParams = useSyncExternalStore(
-    (cb) => strategy.subscribe(cb),
-    () => getSnapshot(strategy),
+    store.subscribe,
+    store.getSnapshot,
     getServerSnapshot
   )
 
@@ -541,27 +538,17 @@ export function useMultiUrlState<T>(
 
   const writeToUrl = useCallback(
     (newEncoded: MultiEncoded) => {
-      if (typeof window === 'undefined') return
-
-      const currentParams = strategy.parse()
-
-      if (newEncoded.length === 0) {
-        delete currentParams[key]
-      } else {
-        currentParams[key] = newEncoded
-      }
-
-      const url = new URL(window.location.href)
-      const newUrl = strategy.buildUrl(url, currentParams)
-
-      const method = push ? 'pushState' : 'replaceState'
-      window.history[method]({ ...window.history.state }, '', newUrl)
-
-      window.dispatchEvent(new PopStateEvent('popstate'))
+      store.write({ [key]: newEncoded }, push)
+      forceUpdate()
     },
-    [key, push, strategy]
+    [key, push, store, forceUpdate]
   )
 
+  // Flush queued writes once the re-render they trigger commits (see useUrlState)
+  useEffect(() => {
+    store.flush()
+  })
+
   useEffect(() => {
     if (debounceMs > 0) {
       debouncedWriteRef.current = debounce(
@@ -579,8 +566,20 @@ export function useMultiUrlState<T>(
     }
   }, [debounceMs, writeToUrl])
 
+  const getPrev = useCallback((): T => {
+    if (pendingRef.current && pendingRef.current.prevRaw === strategy.getRaw()) {
+      return pendingRef.current.decoded
+    }
+    const currentEncoded = store.getSnapshot()[key] ?? []
+    if (lastWrittenRef.current && arraysEqual(lastWrittenRef.current.encoded, currentEncoded)) {
+      return lastWrittenRef.current.decoded
+    }
+    return paramRef.current.decode(currentEncoded)
+  }, [key, store, strategy])
+
   const setValue = useCallback(
-    (newValue: T) => {
+    (action: UrlStateAction<T>) => {
+      const newValue = resolveAction(action, getPrev)
       const newEncoded = paramRef.current.encode(newValue)
 
       lastWrittenRef.current = { encoded: newEncoded, decoded: newValue }
@@ -593,7 +592,7 @@ export function useMultiUrlState<T>(
         writeToUrl(newEncoded)
       }
     },
-    [writeToUrl, strategy, forceUpdate]
+    [writeToUrl, getPrev, strategy, forceUpdate]
   )
 
   return [value, setValue]
@@ -614,7 +613,7 @@ function arraysEqual<T>(a: T[], b: T[]): boolean {
  * - Optional debounce for high-frequency updates
  *
  * @param params - Object mapping keys to MultiParam types
- * @param options - Options (debounce, push)
+ * @param options - Options (debounce, push); defaults come from the nearest UrlStateProvider
  * @returns Object with decoded values and update function
  *
  * @example
@@ -633,14 +632,12 @@ export function useMultiUrlStates<P extends Record<string, MultiParam<any>>>(
   options: UseUrlStateOptions | boolean = {}
 ): {
   values: { [K in keyof P]: P[K] extends MultiParam<infer T> ? T : never }
-  setValues: (updates: Partial<{ [K in keyof P]: P[K] extends MultiParam<infer T> ? T : never }>) => void
+  setValues: (action: UrlStatesAction<{ [K in keyof P]: P[K] extends MultiParam<infer T> ? T : never }>) => void
 } {
-  const opts: UseUrlStateOptions = typeof options === 'boolean'
-    ? { push: options }
-    : options
-  const { debounce: debounceMs = 0, push = false } = opts
-
-  const strategy = getDefaultStrategy()
+  // Resolve strategy and options: per-call options, then UrlStateProvider, then global defaults
+  const { strategy, serverUrl, push, debounce: debounceMs } = useUrlStateConfig(options)
+  const store = getUrlStore(strategy)
+  const getServerSnapshot = useCallback(() => store.getServerSnapshot(serverUrl), [store, serverUrl])
 
   const [, forceUpdate] = useReducer((c: number) => c + 1, 0)
 
@@ -654,8 +651,8 @@ export function useMultiUrlStates<P extends Record<string, MultiParam<any>>>(
   const debouncedWriteRef = useRef<ReturnType<typeof debounce<(updates: Record<string, MultiEncoded>) => void>> | null>(null)
 
   const urlParams = useSyncExternalStore(
-    (cb) => strategy.subscribe(cb),
-    () => getSnapshot(strategy),
+    store.subscribe,
+    store.getSnapshot,
     getServerSnapshot
   )
 
@@ -706,29 +703,17 @@ export function useMultiUrlStates<P extends Record<string, MultiParam<any>>>(
 
   const writeToUrl = useCallback(
     (updates: Record<string, MultiEncoded>) => {
-      if (typeof window === 'undefined') return
-
-      const currentParams = strategy.parse()
-
-      for (const [key, encoded] of Object.entries(updates)) {
-        if (encoded.length === 0) {
-          delete currentParams[key]
-        } else {
-          currentParams[key] = encoded
-        }
-      }
-
-      const url = new URL(window.location.href)
-      const newUrl = strategy.buildUrl(url, currentParams)
-
-      const method = push ? 'pushState' : 'replaceState'
-      window.history[method]({ ...window.history.state }, '', newUrl)
-
-      window.dispatchEvent(new PopStateEvent('popstate'))
+      store.write(updates, push)
+      forceUpdate()
     },
-    [push, strategy]
+    [push, store, forceUpdate]
   )
 
+  // Flush queued writes once the re-render they trigger commits (see useUrlState)
+  useEffect(() => {
+    store.flush()
+  })
+
   useEffect(() => {
     if (debounceMs > 0) {
       debouncedWriteRef.current = debounce(
@@ -746,8 +731,27 @@ export function useMultiUrlStates<P extends Record<string, MultiParam<any>>>(
     }
   }, [debounceMs, writeToUrl])
 
+  const getPrevValues = useCallback(() => {
+    const currentParams = store.getSnapshot()
+    const pending = pendingRef.current && pendingRef.current.prevRaw === strategy.getRaw()
+      ? pendingRef.current.values
+      : {}
+    return Object.fromEntries(
+      Object.entries(params).map(([key, param]) => {
+        if (key in pending) return [key, pending[key]]
+        const encoded = currentParams[key] ?? []
+        const lastWritten = lastWrittenRef.current[key]
+        if (lastWritten && arraysEqual(lastWritten.encoded, encoded)) {
+          return [key, lastWritten.decoded]
+        }
+        return [key, param.decode(encoded)]
+      })
+    ) as { [K in keyof P]: P[K] extends MultiParam<infer T> ? T : never }
+  }, [params, store, strategy])
+
   const setValues = useCallback(
-    (updates: Partial<{ [K in keyof P]: P[K] extends MultiParam<infer T> ? T : never }>) => {
+    (action: UrlStatesAction<{ [K in keyof P]: P[K] extends MultiParam<infer T> ? T : never }>) => {
+      const updates = typeof action === 'function' ? action(getPrevValues()) : action
       const encodedUpdates: Record<string, MultiEncoded> = {}
 
       for (const [key, value] of Object.entries(updates)) {
@@ -761,17 +765,21 @@ export function useMultiUrlStates<P extends Record<string, MultiParam<any>>>(
 
       if (debouncedWriteRef.current) {
         const pendingValues = pendingRef.current?.values ?? {}
-        for (const [key, value] of Object.entries(updates)) {
-          pendingValues[key] = value
+        // Only keys with a param (as written above); others have no lastWritten entry
+        for (const key of Object.keys(encodedUpdates)) {
+          pendingValues[key] = lastWrittenRef.current[key].decoded
         }
         pendingRef.current = { values: pendingValues, prevRaw: strategy.getRaw() }
-        debouncedWriteRef.current(encodedUpdates)
+        // Write every key updated during this debounce window, not just this call's
+        debouncedWriteRef.current(Object.fromEntries(
+          Object.keys(pendingValues).map(key => [key, lastWrittenRef.current[key].encoded])
+        ))
         forceUpdate()
       } else {
         writeToUrl(encodedUpdates)
       }
     },
-    [params, writeToUrl, strategy, forceUpdate]
+    [params, writeToUrl, getPrevValues, strategy, forceUpdate]
   )
 
   return { values, setValues }
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { uuidParam, uuidsParam } from './uuid'
+
+const SF = 'e8062547-b090-4206-8f1e-7329e0014e98'
+const NY = '07ed9191-5bc6-421b-9883-f1ac2e276ad7'
+const ENG = 'e1e973fe-6f0a-475f-9361-a9b6c095d869'
+const HR = '6dd4a467-446d-4093-8d57-d4633a571123'
+
+describe('uuidParam', () => {
+  it('packs UUIDs into 22 base64 chars', () => {
+    const param = uuidParam()
+    expect(param.encode(NY)).toBe('B-2RkVvGQhuYg_GsLidq1w')
+    expect(param.decode('B-2RkVvGQhuYg_GsLidq1w')).toBe(NY)
+    for (const uuid of [SF, NY, ENG, HR, '00000000-0000-0000-0000-000000000000', 'ffffffff-ffff-ffff-ffff-ffffffffffff']) {
+      const encoded = param.encode(uuid)!
+      expect(encoded).toHaveLength(22)
+      expect(param.decode(encoded)).toBe(uuid)
+    }
+  })
+
+  it('decodes to canonical lowercase form', () => {
+    const param = uuidParam()
+    expect(param.decode(param.encode(NY.toUpperCase()))).toBe(NY)
+    expect(param.decode(NY.toUpperCase())).toBe(NY)
+  })
+
+  it('omits null, and decodes malformed values to null', () => {
+    const param = uuidParam()
+    expect(param.encode(null)).toBeUndefined()
+    expect(param.decode(undefined)).toBeNull()
+    expect(param.decode('')).toBeNull()
+    expect(param.decode('B-2RkVvGQhuYg_GsLidq1')).toBeNull()
+    expect(param.decode('B-2RkVvGQhuYg_GsLidq1!')).toBeNull()
+    expect(() => param.encode('not-a-uuid')).toThrow("Invalid UUID: 'not-a-uuid'")
+  })
+
+  it('uses short codes for known UUIDs', () => {
+    const param = uuidParam({ codes: { [SF]: 'sf', [NY.toUpperCase()]: 'ny' } })
+    expect(param.encode(SF)).toBe('sf')
+    expect(param.encode(NY)).toBe('ny')
+    expect(param.encode(ENG)).toBe(uuidParam().encode(ENG))
+    expect(param.decode('sf')).toBe(SF)
+    expect(param.decode('ny')).toBe(NY)
+    expect(param.decode(param.encode(ENG))).toBe(ENG)
+    expect(param.decode('la')).toBeNull()
+  })
+
+  it('supports radix alphabets', () => {
+    const param = uuidParam({ alphabet: 'base62' })
+    for (const uuid of [SF, NY, 'ffffffff-ffff-ffff-ffff-ffffffffffff']) {
+      const encoded = param.encode(uuid)!
+      expect(encoded).toMatch(/^[0-9A-Za-z]{22}$/)
+      expect(param.decode(encoded)).toBe(uuid)
+    }
+    const hash = uuidParam({ alphabet: 'hash' })
+    expect(hash.encode(NY)).toHaveLength(21)
+    expect(hash.decode(hash.encode(NY))).toBe(NY)
+  })
+
+  it('validates codes', () => {
+    expect(() => uuidParam({ codes: { [SF]: '' } })).toThrow("code '' must be non-empty")
+    expect(() => uuidParam({ codes: { [SF]: 'x'.repeat(22) } })).toThrow('packed UUID length')
+    expect(() => uuidParam({ codes: [[SF, 'a'], [NY, 'a']] })).toThrow("duplicate code 'a'")
+    expect(() => uuidParam({ codes: { 'e8062547': 'a' } })).toThrow("Invalid UUID: 'e8062547'")
+  })
+})
+
+describe('uuidsParam', () => {
+  const codes = { [SF]: 'sf', [ENG]: 'eng' }
+
+  it('joins codes and packed UUIDs', () => {
+    const param = uuidsParam({ codes })
+    expect(param.encode([ENG, HR])).toBe('eng.bdSkZ0RtQJONV9RjOlcRIw')
+    expect(param.decode('eng.bdSkZ0RtQJONV9RjOlcRIw')).toEqual([ENG, HR])
+    expect(param.decode(param.encode([SF, NY, ENG, HR]))).toEqual([SF, NY, ENG, HR])
+  })
+
+  it('omits empty lists and drops malformed entries', () => {
+    const param = uuidsParam({ codes })
+    expect(param.encode([])).toBeUndefined()
+    expect(param.decode(undefined)).toEqual([])
+    expect(param.decode('eng.xx.sf')).toEqual([ENG, SF])
+  })
+
+  it('supports custom separators', () => {
+    const param = uuidsParam({ codes, separator: ' ' })
+    expect(param.encode([SF, ENG])).toBe('sf eng')
+    expect(param.decode('sf eng')).toEqual([SF, ENG])
+  })
+
+  it('defaults to a space separator for alphabets containing .', () => {
+    for (const alphabet of ['hash', 'query'] as const) {
+      const param = uuidsParam({ codes, alphabet })
+      const encoded = param.encode([SF, NY, HR])!
+      expect(encoded.split(' ')).toHaveLength(3)
+      expect(encoded.startsWith('sf ')).toBe(true)
+      expect(param.decode(encoded)).toEqual([SF, NY, HR])
+    }
+    expect(uuidsParam({ codes, alphabet: 'base62' }).encode([SF, ENG])).toBe('sf.eng')
+  })
+
+  it('validates the separator', () => {
+    expect(() => uuidsParam({ separator: '-' })).toThrow('not overlap the packed UUID alphabet')
+    expect(() => uuidsParam({ separator: '' })).toThrow('must be non-empty')
+    expect(() => uuidsParam({ alphabet: 'hash', separator: '.' })).toThrow("separator '.'")
+    expect(() => uuidsParam({ codes: { [SF]: 's.f' } })).toThrow("must not contain separator '.'")
+  })
+})
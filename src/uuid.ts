@@ -0,0 +1,161 @@
+/**
+ * UUID params
+ *
+ * Packs 36-char UUIDs into their 128 bits (22 base64 chars), with optional short codes for
+ * well-known IDs.
+ */
+
+import type { Param } from './index.js'
+import type { Alphabet } from './alphabet.js'
+import { resolveRadixAlphabet, type RadixAlphabet } from './radix.js'
+import type { CodeMap } from './params.js'
+import { BitBuffer, decodeBuffer, encodeBuffer } from './float.js'
+
+const UUID_BITS = 128
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Canonical (lowercase, hyphenated) form of a UUID
+ * @throws Error if `uuid` isn't a hyphenated UUID
+ */
+function canonicalUuid(uuid: string): string {
+  if (!UUID_REGEX.test(uuid)) throw new Error(`Invalid UUID: '${uuid}'`)
+  return uuid.toLowerCase()
+}
+
+function packUuid(uuid: string, alphabet?: Alphabet | RadixAlphabet): string {
+  const buf = new BitBuffer()
+  buf.encodeBigInt(BigInt(`0x${uuid.replace(/-/g, '')}`), UUID_BITS)
+  return encodeBuffer(buf, alphabet)
+}
+
+function unpackUuid(str: string, alphabet?: Alphabet | RadixAlphabet): string {
+  const buf = decodeBuffer(str, alphabet)
+  const hex = buf.decodeBigInt(UUID_BITS).toString(16).padStart(32, '0')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+/**
+ * Options for uuidParam
+ */
+export interface UuidParamOptions {
+  /**
+   * Short codes for known UUIDs (like `codeParam`); other UUIDs are packed
+   */
+  codes?: CodeMap<string>
+  /**
+   * Alphabet for packed UUIDs: base64 preset or 64-char string, or a radix preset /
+   * 2–90-char string for radix-N
+   * @default 'rfc4648'
+   */
+  alphabet?: Alphabet | RadixAlphabet
+}
+
+/**
+ * Options for uuidsParam
+ */
+export interface UuidsParamOptions extends UuidParamOptions {
+  /**
+   * Delimiter between UUIDs; must not appear in codes or the packed alphabet
+   * @default '.', or ' ' (written `+` or `%20`) for alphabets containing '.' (like 'hash')
+   */
+  separator?: string
+}
+
+/**
+ * Shared UUID ↔ string conversion for uuidParam and uuidsParam
+ */
+function createUuidCodec(opts: UuidsParamOptions, fnName: string) {
+  const { codes = [], alphabet, separator } = opts
+  // Packed length is fixed for a given alphabet; also validates radix alphabets
+  const packedLength = packUuid('00000000-0000-0000-0000-000000000000', alphabet).length
+  if (separator !== undefined) {
+    const chars = resolveRadixAlphabet(alphabet ?? 'rfc4648')
+    if (!separator || [...separator].some(char => chars.includes(char))) {
+      throw new Error(`${fnName}: separator '${separator}' must be non-empty and not overlap the packed UUID alphabet`)
+    }
+  }
+
+  const entries = Array.isArray(codes) ? codes : Object.entries(codes)
+  const uuidToCode = new Map<string, string>()
+  const codeToUuid = new Map<string, string>()
+  for (const [uuid, code] of entries) {
+    if (!code || code.length === packedLength) {
+      throw new Error(`${fnName}: code '${code}' must be non-empty and not ${packedLength} chars long (the packed UUID length)`)
+    }
+    if (separator && code.includes(separator)) {
+      throw new Error(`${fnName}: code '${code}' must not contain separator '${separator}'`)
+    }
+    if (codeToUuid.has(code)) throw new Error(`${fnName}: duplicate code '${code}'`)
+    const canonical = canonicalUuid(uuid)
+    uuidToCode.set(canonical, code)
+    codeToUuid.set(code, canonical)
+  }
+
+  return {
+    encode: (uuid: string): string => {
+      const canonical = canonicalUuid(uuid)
+      return uuidToCode.get(canonical) ?? packUuid(canonical, alphabet)
+    },
+    /** Decode a code, packed or hyphenated UUID; `null` if invalid */
+    decode: (str: string): string | null => {
+      const uuid = codeToUuid.get(str)
+      if (uuid !== undefined) return uuid
+      if (UUID_REGEX.test(str)) return str.toLowerCase()
+      if (str.length !== packedLength) return null
+      try {
+        return unpackUuid(str, alphabet)
+      } catch {
+        return null
+      }
+    },
+  }
+}
+
+/**
+ * Create a param for a single UUID, written as a short code (if one is given) or packed into
+ * 22 base64 chars (vs. 36 hyphenated). Decodes to canonical lowercase hyphenated form;
+ * hyphenated UUIDs in the URL are also accepted.
+ *
+ * `null` is omitted from the URL, and malformed values decode to `null`. Encoding a string
+ * that isn't a UUID throws.
+ *
+ * @example
+ * ```ts
+ * const locationParam = uuidParam({ codes: { 'e8062547-b090-4206-8f1e-7329e0014e98': 'sf' } })
+ * // 'e8062547-b090-4206-8f1e-7329e0014e98' → ?l=sf
+ * // '07ed9191-5bc6-421b-9883-f1ac2e276ad7' → ?l=B-2RkVvGQhuYg_GsLidq1w
+ * ```
+ */
+export function uuidParam(opts: UuidParamOptions = {}): Param<string | null> {
+  const codec = createUuidCodec(opts, 'uuidParam')
+  return {
+    encode: (value) => value === null ? undefined : codec.encode(value),
+    decode: (encoded) => encoded === undefined || encoded === '' ? null : codec.decode(encoded),
+  }
+}
+
+/**
+ * Create a param for a list of UUIDs, each a short code or packed (see `uuidParam`), joined
+ * by `separator` (`.` by default, or a space for alphabets that contain `.`). Empty lists are
+ * omitted from the URL; malformed entries are dropped.
+ *
+ * @example
+ * ```ts
+ * const categoriesParam = uuidsParam({ codes: { 'e1e973fe-6f0a-475f-9361-a9b6c095d869': 'eng', ... } })
+ * // ['e1e973fe-…', '6dd4a467-446d-4093-8d57-d4633a571123'] → ?c=eng.bdSkZ0RtQJONV9RjOlcRIw
+ * ```
+ */
+export function uuidsParam(opts: UuidsParamOptions = {}): Param<string[]> {
+  const { alphabet = 'rfc4648' } = opts
+  const { separator = resolveRadixAlphabet(alphabet).includes('.') ? ' ' : '.' } = opts
+  const codec = createUuidCodec({ ...opts, separator }, 'uuidsParam')
+  return {
+    encode: (values) => values.length ? values.map(codec.encode).join(separator) : undefined,
+    decode: (encoded) => {
+      if (encoded === undefined || encoded === '') return []
+      return encoded.split(separator).map(codec.decode).filter((uuid): uuid is string => uuid !== null)
+    },
+  }
+}